@@ -11,7 +11,7 @@ export default tseslint.config(
         ...globals.node,
       },
       parserOptions: {
-        project: true,
+        project: ["./tsconfig.json", "./tsconfig.toolbar.json"],
         tsconfigRootDir: import.meta.dirname,
       },
     },
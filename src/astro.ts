@@ -0,0 +1,32 @@
+import { useStoryblokApi } from "@storyblok/astro";
+import { createCachedClient } from "./index.js";
+import type { CachedApiOptions } from "./index.js";
+import type { CachedStoryblokClient } from "./client.js";
+import { withDevTools } from "./dev-tools.js";
+
+export * from "./index.js";
+export { storyblokCache } from "./integration.js";
+export type { CacheIntegrationOptions } from "./integration.js";
+export type { PageEntry } from "./toolbar-events.js";
+
+/**
+ * Caches the Storyblok client of an Astro project, as returned by useStoryblokApi()
+ *
+ * With the storyblokCache() integration, `astro dev` lists the requests of each
+ * page in the dev toolbar and reloads the browser when entries change.
+ *
+ * @param options - Configuration options for caching behavior
+ * @returns The Storyblok API instance with caching enabled
+ * @throws AlreadyCachedError if useStoryblokApi() returns a cached client
+ *
+ * @example
+ * ```typescript
+ * import { useCachedStoryblokApi } from 'storyblok-cached-api/astro';
+ *
+ * const storyblokApi = useCachedStoryblokApi();
+ * const { data } = await storyblokApi.get('cdn/stories/home');
+ * ```
+ */
+export function useCachedStoryblokApi(options?: CachedApiOptions): CachedStoryblokClient {
+  return createCachedClient(useStoryblokApi(), withDevTools(options));
+}
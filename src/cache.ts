@@ -0,0 +1,422 @@
+import type { ISbStoryParams } from "storyblok-js-client";
+import { createHash } from "node:crypto";
+import { existsSync, mkdirSync, readFileSync, readdirSync, unlinkSync } from "node:fs";
+import { join } from "node:path";
+import type { CacheEntry } from "./entry.js";
+import {
+  recordManifestDelete,
+  recordManifestRead,
+  recordManifestWrite,
+  resetManifest,
+} from "./manifest.js";
+import { resolveLogger } from "./logger.js";
+import type { CacheLogger } from "./logger.js";
+import { memoryTiers } from "./memory-cache.js";
+import { normalizeParams, selectParams } from "./params.js";
+import { extractEntryRefs, reverseIndexes } from "./reverse-index.js";
+import { DIRECTORY_LOCK, quarantineFile, withFileLock, writeFileAtomic } from "./safe-fs.js";
+
+export { isCacheEntry } from "./entry.js";
+export type { CacheEntry, CachedError } from "./entry.js";
+
+/**
+ * Default directory for cache storage, relative to the working directory
+ */
+export const CACHE_DIR = ".sb-dev-cache";
+
+/**
+ * A TTL override for slugs matching a pattern
+ */
+export interface TtlRule {
+  /**
+   * A RegExp, or a string where `*` matches any sequence of characters
+   * (e.g. `cdn/stories/blog/*`)
+   */
+  pattern: string | RegExp;
+
+  /**
+   * Time in milliseconds after which matching entries expire
+   */
+  ttl: number;
+}
+
+/**
+ * Controls which request parameters identify a cache entry
+ */
+export interface CacheKeyOptions {
+  /**
+   * Parameters left out of the key, e.g. volatile ones that change on every request.
+   * The access token is always left out.
+   * @default ['cv']
+   */
+  ignoreParams?: string[];
+
+  /**
+   * If given, only these parameters are part of the key
+   */
+  includeParams?: string[];
+
+  /**
+   * Builds the key from the path and the normalized, filtered parameters instead
+   * of the default `<sanitized path>__<hash>.json`. Path separators are replaced
+   * and `.json` is appended when missing, so the result is always a cache filename.
+   */
+  key?: (path: string, params: ISbStoryParams) => string;
+}
+
+/**
+ * Options for reading a single entry with readFromCache()
+ */
+export interface ReadCacheOptions {
+  /**
+   * Record the read as an access in the manifest, which LRU eviction and
+   * `accessedBefore` go by. Inspection tools turn this off.
+   * @default true
+   */
+  track?: boolean;
+}
+
+/**
+ * Generates a unique cache key based on the path and request parameters
+ * 
+ * Parameters are normalized first, so key order, nested key order, the order of
+ * array values and undefined values don't matter. Volatile parameters (`cv` by
+ * default) and the access token are never part of the key.
+ * 
+ * @param path - The Storyblok story path
+ * @param params - Optional story parameters
+ * @param options - Which parameters identify an entry, or a custom key function
+ * @returns A sanitized cache key string
+ */
+export function generateCacheKey(
+  path: string,
+  params?: ISbStoryParams,
+  options: CacheKeyOptions = {}
+): string {
+  // Normalize path by removing leading slash
+  const normalizedPath = path.replace(/^\//, "");
+  const { ignoreParams = ["cv"], includeParams, key } = options;
+  const keyParams = normalizeParams(selectParams(params ?? {}, ignoreParams, includeParams));
+
+  if (key) {
+    const customKey = key(normalizedPath, keyParams).replace(/[\\/]/g, "_");
+    return customKey.endsWith(".json") ? customKey : `${customKey}.json`;
+  }
+
+  const paramsStr = Object.keys(keyParams).length > 0 ? JSON.stringify(keyParams) : "";
+  const combined = `${normalizedPath}::${paramsStr}`;
+  const hash = createHash("sha256").update(combined).digest("hex").substring(0, 16);
+
+  // Sanitize the path to use as part of the filename
+  const sanitizedPath = normalizedPath
+    .replace(/\//g, "_")
+    .replace(/[^a-zA-Z0-9_-]/g, "-");
+
+  return `${sanitizedPath}__${hash}.json`;
+}
+
+/**
+ * Resolves the TTL that applies to a slug
+ * 
+ * @param slug - The Storyblok story path
+ * @param ttl - The global TTL in milliseconds
+ * @param rules - Per-slug TTL overrides
+ * @returns The TTL in milliseconds, or undefined if entries never expire
+ */
+export function resolveTtl(
+  slug: string,
+  ttl?: number,
+  rules: TtlRule[] = []
+): number | undefined {
+  const normalizedSlug = slug.replace(/^\//, "");
+
+  const rule = rules.find(({ pattern }) => {
+    if (pattern instanceof RegExp) {
+      return pattern.test(normalizedSlug);
+    }
+    const escaped = pattern
+      .replace(/^\//, "")
+      .split("*")
+      .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+      .join(".*");
+    return new RegExp(`^${escaped}$`).test(normalizedSlug);
+  });
+
+  return rule ? rule.ttl : ttl;
+}
+
+/**
+ * Checks whether a cache entry is older than the given TTL
+ * 
+ * @param entry - The cache entry to check
+ * @param ttl - The TTL in milliseconds, or undefined for no expiry
+ * @param now - The current time in milliseconds
+ * @returns True if the entry has expired
+ */
+export function isExpired(
+  entry: CacheEntry,
+  ttl?: number,
+  now: number = Date.now()
+): boolean {
+  if (ttl === undefined) {
+    return false;
+  }
+  return now - entry.timestamp >= ttl;
+}
+
+/**
+ * Returns the path of the lock file guarding a cache entry
+ */
+function entryLockPath(cachePath: string): string {
+  return `${cachePath}.lock`;
+}
+
+/**
+ * Moves an unparseable entry into the quarantine folder, unless a concurrent
+ * writer has replaced it with a valid file in the meantime
+ */
+function quarantineEntry(cacheKey: string, cacheDir: string, logger: CacheLogger): void {
+  const cachePath = join(process.cwd(), cacheDir, cacheKey);
+
+  try {
+    const target = withFileLock(entryLockPath(cachePath), () => {
+      try {
+        JSON.parse(readFileSync(cachePath, "utf-8"));
+        return null;
+      } catch {
+        return quarantineFile(cachePath);
+      }
+    });
+
+    if (target !== null) {
+      memoryTiers.get(cacheDir)?.delete(cacheKey);
+      reverseIndexes.get(cacheDir)?.remove(cacheKey);
+      recordManifestDelete(cacheDir, cacheKey);
+      logger.warn(`[Cache] Quarantined corrupted entry ${cacheKey} to ${target}`);
+    }
+  } catch (error) {
+    logger.warn(`[Cache] Error quarantining ${cacheKey}:`, error);
+  }
+}
+
+/**
+ * Reads data from the disk cache
+ * 
+ * Files that cannot be parsed are moved into the `.quarantine` folder of the
+ * cache directory and reported as a miss.
+ * 
+ * @param cacheKey - The cache key to read
+ * @param cacheDir - The cache directory path
+ * @param verbose - Enable verbose logging, or a logger to log through
+ * @param options - Whether the read counts as an access
+ * @returns The cached data or null if not found
+ */
+export function readFromCache<T = unknown>(
+  cacheKey: string,
+  cacheDir: string = CACHE_DIR,
+  verbose: boolean | CacheLogger = true,
+  { track = true }: ReadCacheOptions = {}
+): T | null {
+  const cachePath = join(process.cwd(), cacheDir, cacheKey);
+  const logger = resolveLogger(verbose);
+
+  if (!existsSync(cachePath)) {
+    return null;
+  }
+
+  try {
+    const content = readFileSync(cachePath, "utf-8");
+    const parsed = JSON.parse(content) as T;
+    if (track) {
+      recordManifestRead(cacheDir, cacheKey);
+    }
+    return parsed;
+  } catch (error) {
+    logger.warn(`[Cache] Error reading cache for ${cacheKey}:`, error);
+    if (error instanceof SyntaxError) {
+      quarantineEntry(cacheKey, cacheDir, logger);
+    }
+    return null;
+  }
+}
+
+/**
+ * Writes data to the disk cache
+ * 
+ * The file is written under a lock and renamed into place, so concurrent
+ * readers and other processes never see a partial entry. The stories the entry
+ * contains or resolved are recorded, so invalidateStory() can find it.
+ * 
+ * @param cacheKey - The cache key to write
+ * @param data - The data to cache
+ * @param cacheDir - The cache directory path
+ * @param verbose - Enable verbose logging, or a logger to log through
+ */
+export function writeToCache<T = unknown>(
+  cacheKey: string,
+  data: T,
+  cacheDir: string = CACHE_DIR,
+  verbose: boolean | CacheLogger = true
+): void {
+  const cacheDirPath = join(process.cwd(), cacheDir);
+  const logger = resolveLogger(verbose);
+
+  // Create directory if it doesn't exist
+  if (!existsSync(cacheDirPath)) {
+    mkdirSync(cacheDirPath, { recursive: true });
+  }
+
+  try {
+    writeCacheFile(cacheKey, JSON.stringify(data, null, 2), cacheDir);
+    reverseIndexes.get(cacheDir)?.add(cacheKey, extractEntryRefs(data));
+    logger.log(`[Cache] ✓ Saved to cache: ${cacheKey}`);
+  } catch (error) {
+    logger.warn(`[Cache] Error writing cache for ${cacheKey}:`, error);
+  }
+}
+
+/**
+ * Writes serialized entry content as-is under the entry lock and records it in
+ * the manifest. The cache directory must exist.
+ * 
+ * @param cacheKey - The cache key to write
+ * @param content - The file content
+ * @param cacheDir - The cache directory path
+ */
+export function writeCacheFile(cacheKey: string, content: string, cacheDir: string = CACHE_DIR): void {
+  const cachePath = join(process.cwd(), cacheDir, cacheKey);
+  withFileLock(entryLockPath(cachePath), () => writeFileAtomic(cachePath, content));
+  recordManifestWrite(cacheDir, cacheKey, content);
+}
+
+/**
+ * Deletes a single entry from the disk cache
+ * 
+ * @param cacheKey - The cache key to delete
+ * @param cacheDir - The cache directory path
+ * @returns True if a file was deleted
+ */
+export function deleteFromCache(cacheKey: string, cacheDir: string = CACHE_DIR): boolean {
+  const cachePath = join(process.cwd(), cacheDir, cacheKey);
+  memoryTiers.get(cacheDir)?.delete(cacheKey);
+  reverseIndexes.get(cacheDir)?.remove(cacheKey);
+
+  if (!existsSync(cachePath)) {
+    return false;
+  }
+
+  const deleted = withFileLock(entryLockPath(cachePath), () => {
+    if (!existsSync(cachePath)) {
+      return false;
+    }
+    unlinkSync(cachePath);
+    return true;
+  });
+  recordManifestDelete(cacheDir, cacheKey);
+  return deleted;
+}
+
+/**
+ * Lists the keys of all entries in the disk cache
+ * 
+ * @param cacheDir - The cache directory path
+ * @returns The cache keys, sorted alphabetically
+ */
+export function listCacheKeys(cacheDir: string = CACHE_DIR): string[] {
+  const cacheDirPath = join(process.cwd(), cacheDir);
+
+  if (!existsSync(cacheDirPath)) {
+    return [];
+  }
+
+  return readdirSync(cacheDirPath)
+    .filter((file: string) => file.endsWith(".json"))
+    .sort();
+}
+
+/**
+ * Lists the namespaces in a cache directory: the subdirectories holding cache
+ * entries, such as `<space>/<version>`
+ * 
+ * @param cacheDir - The cache directory path
+ * @returns Namespace paths relative to the cache directory, sorted alphabetically
+ */
+export function listNamespaces(cacheDir: string = CACHE_DIR): string[] {
+  const cacheDirPath = join(process.cwd(), cacheDir);
+
+  if (!existsSync(cacheDirPath)) {
+    return [];
+  }
+
+  return listSubdirectories(cacheDirPath)
+    .flatMap((name) => {
+      const nested = listNamespaces(join(cacheDir, name)).map((namespace) => `${name}/${namespace}`);
+      return listCacheKeys(join(cacheDir, name)).length > 0 ? [name, ...nested] : nested;
+    })
+    .sort();
+}
+
+/**
+ * Lists the directories holding entries of a cache: the cache directory itself
+ * and every namespace in it, or only one namespace and those nested inside it
+ *
+ * @param cacheDir - The cache directory path
+ * @param namespace - Only this namespace (e.g. `staging` or `staging/draft`)
+ * @returns Each namespace ("" for the cache directory itself) with its directory path
+ */
+export function listEntryDirs(
+  cacheDir: string = CACHE_DIR,
+  namespace?: string
+): Array<{ namespace: string; dir: string }> {
+  const only = namespace?.replace(/^\/+|\/+$/g, "");
+  return ["", ...listNamespaces(cacheDir)]
+    .filter((name) => only === undefined || name === only || name.startsWith(`${only}/`))
+    .map((name) => ({ namespace: name, dir: name === "" ? cacheDir : join(cacheDir, name) }));
+}
+
+// Namespaces are subdirectories; dot-directories such as .quarantine are not
+function listSubdirectories(dirPath: string): string[] {
+  return readdirSync(dirPath, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory() && !entry.name.startsWith("."))
+    .map((entry) => entry.name);
+}
+
+/**
+ * Clears all cache files and the manifest from the cache directory, including
+ * every namespace inside it
+ * 
+ * @param cacheDir - The cache directory path
+ * @param namespace - Only clear this namespace (e.g. `staging` or `staging/draft`)
+ * @returns Number of cache files deleted
+ */
+export function clearCache(cacheDir: string = CACHE_DIR, namespace?: string): number {
+  if (namespace !== undefined) {
+    return clearCache(join(cacheDir, namespace));
+  }
+
+  const cacheDirPath = join(process.cwd(), cacheDir);
+  memoryTiers.get(cacheDir)?.clear();
+  // Dropped rather than emptied, so the next lookup rescans the directory
+  reverseIndexes.delete(cacheDir);
+  resetManifest(cacheDir);
+  
+  if (!existsSync(cacheDirPath)) {
+    return 0;
+  }
+
+  const deleted = withFileLock(join(cacheDirPath, DIRECTORY_LOCK), () => {
+    const files = readdirSync(cacheDirPath).filter((file: string) => file.endsWith(".json"));
+
+    files.forEach((file: string) => {
+      const cachePath = join(cacheDirPath, file);
+      withFileLock(entryLockPath(cachePath), () => unlinkSync(cachePath));
+    });
+
+    return files.length;
+  });
+
+  return listSubdirectories(cacheDirPath).reduce(
+    (sum, name) => sum + clearCache(join(cacheDir, name)),
+    deleted
+  );
+}
@@ -0,0 +1,486 @@
+import { existsSync, readdirSync, rmSync, statSync } from "node:fs";
+import { join } from "node:path";
+import { parseArgs } from "node:util";
+import type { ISbStoryParams } from "storyblok-js-client";
+import {
+  CACHE_DIR,
+  clearCache,
+  deleteFromCache,
+  generateCacheKey,
+  isCacheEntry,
+  listCacheKeys,
+  listEntryDirs,
+  listNamespaces,
+  readFromCache,
+} from "./cache.js";
+import { QUARANTINE_DIR } from "./safe-fs.js";
+import { exportSnapshot, importSnapshot } from "./snapshot.js";
+
+/**
+ * Output streams used by the command-line tool
+ */
+export interface CliIO {
+  log: (message: string) => void;
+  error: (message: string) => void;
+}
+
+/**
+ * A cache file as seen by the command-line tool
+ */
+export interface CacheFileInfo {
+  /**
+   * The cache key (filename)
+   */
+  key: string;
+
+  /**
+   * The namespace the entry is in (e.g. `a1b2c3d4e5f6/draft`), unless it is at the top level
+   */
+  namespace?: string;
+
+  /**
+   * The Storyblok path, recovered from the filename for entries written without one
+   */
+  slug: string;
+
+  /**
+   * The request parameters, if recorded
+   */
+  params?: ISbStoryParams;
+
+  /**
+   * Unix timestamp in milliseconds of when the entry was written, if recorded
+   */
+  timestamp?: number;
+
+  /**
+   * File size in bytes
+   */
+  size: number;
+
+  /**
+   * True if the file could not be parsed
+   */
+  corrupted: boolean;
+}
+
+const USAGE = `Usage: storyblok-cache <command> [options]
+
+Commands:
+  list                     List cached entries with slug, params, age and size
+  show <slug>              Print the cached responses for a slug
+  clear                    Delete cached entries
+  prune                    Delete corrupted and quarantined entries, and expired ones with --ttl
+  stats                    Summarize the cache contents
+  namespaces               List the namespaces (space and version) in the cache
+  export <file>            Bundle every entry into a snapshot file
+  import <file>            Replace the cache with the entries of a snapshot file
+
+Options:
+  --dir <path>             Cache directory (default: ${CACHE_DIR})
+  --namespace <name>       Only this namespace (e.g. a1b2c3d4e5f6/draft); all by default
+  --params <json>          show: only the entry for these request params
+  --slug-prefix <prefix>   clear: only entries whose slug starts with prefix
+  --older-than <duration>  clear: only entries older than duration (e.g. 30m, 12h, 7d)
+  --ttl <duration>         prune: also delete entries older than duration
+  -h, --help               Show this help`;
+
+const DURATION_UNITS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60_000,
+  h: 3_600_000,
+  d: 86_400_000,
+};
+
+/**
+ * Parses a duration such as `500ms`, `30s`, `15m`, `12h` or `7d` into milliseconds.
+ * A bare number is read as milliseconds.
+ *
+ * @param value - The duration string
+ * @returns The duration in milliseconds
+ */
+export function parseDuration(value: string): number {
+  const match = /^(\d+(?:\.\d+)?)(ms|s|m|h|d)?$/.exec(value.trim());
+  if (!match) {
+    throw new Error(`Invalid duration: ${value}`);
+  }
+
+  const [, amount = "0", unit = "ms"] = match;
+  return Number(amount) * (DURATION_UNITS[unit] ?? 1);
+}
+
+/**
+ * Formats a byte count for display
+ *
+ * @param bytes - The number of bytes
+ * @returns A human readable size such as `12.3 KB`
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Formats an age in milliseconds for display
+ *
+ * @param ms - The age in milliseconds
+ * @returns A compact age such as `42s`, `5m`, `3h` or `2d`
+ */
+export function formatAge(ms: number): string {
+  const seconds = Math.floor(ms / 1000);
+  if (seconds < 60) {
+    return `${seconds}s`;
+  }
+  if (seconds < 3600) {
+    return `${Math.floor(seconds / 60)}m`;
+  }
+  if (seconds < 86_400) {
+    return `${Math.floor(seconds / 3600)}h`;
+  }
+  return `${Math.floor(seconds / 86_400)}d`;
+}
+
+/**
+ * Reads every entry in a cache directory and its namespaces along with its metadata
+ *
+ * @param cacheDir - The cache directory path
+ * @param namespace - Only entries in this namespace and those nested inside it
+ * @returns Information about each cache file, sorted by namespace and key
+ */
+export function inspectCache(cacheDir: string = CACHE_DIR, namespace?: string): CacheFileInfo[] {
+  return listEntryDirs(cacheDir, namespace).flatMap(({ namespace: name, dir }) =>
+    listCacheKeys(dir).map((key): CacheFileInfo => {
+      const location = { key, ...(name !== "" && { namespace: name }) };
+      const size = statSync(join(process.cwd(), dir, key)).size;
+      const content = readFromCache(key, dir, false, { track: false });
+      // Legacy entries only have the sanitized path in their filename
+      const fallbackSlug = key.replace(/__[a-f0-9]{16}\.json$/, "").replace(/_/g, "/");
+
+      if (content === null) {
+        return { ...location, slug: fallbackSlug, size, corrupted: true };
+      }
+
+      if (!isCacheEntry(content)) {
+        return { ...location, slug: fallbackSlug, size, corrupted: false };
+      }
+
+      return {
+        ...location,
+        slug: content.slug ?? fallbackSlug,
+        params: content.params,
+        timestamp: content.timestamp,
+        size,
+        corrupted: false,
+      };
+    })
+  );
+}
+
+// The directory an entry file is in
+function dirOf(cacheDir: string, info: CacheFileInfo): string {
+  return info.namespace === undefined ? cacheDir : join(cacheDir, info.namespace);
+}
+
+// The entry's path relative to the cache directory
+function pathOf(info: CacheFileInfo): string {
+  return info.namespace === undefined ? info.key : `${info.namespace}/${info.key}`;
+}
+
+// Quarantined files of every directory in scope, relative to the cache directory
+function listQuarantined(cacheDir: string, namespace?: string): string[] {
+  return listEntryDirs(cacheDir, namespace).flatMap(({ namespace: name, dir }) => {
+    const quarantinePath = join(process.cwd(), dir, QUARANTINE_DIR);
+    const prefix = name === "" ? QUARANTINE_DIR : `${name}/${QUARANTINE_DIR}`;
+    return existsSync(quarantinePath)
+      ? readdirSync(quarantinePath).sort().map((file) => `${prefix}/${file}`)
+      : [];
+  });
+}
+
+// Where the command looked, for messages
+function describeScope(cacheDir: string, namespace?: string): string {
+  return namespace === undefined ? cacheDir : join(cacheDir, namespace);
+}
+
+function describeAge(info: CacheFileInfo, now: number): string {
+  if (info.corrupted) {
+    return "corrupt";
+  }
+  return info.timestamp === undefined ? "?" : formatAge(now - info.timestamp);
+}
+
+function normalizeSlug(slug: string): string {
+  return slug.replace(/^\//, "");
+}
+
+function listCommand(cacheDir: string, namespace: string | undefined, io: CliIO): number {
+  const entries = inspectCache(cacheDir, namespace);
+  if (entries.length === 0) {
+    io.log(`No cached entries in ${describeScope(cacheDir, namespace)}`);
+    return 0;
+  }
+
+  // The namespace column is only shown when there is more than the top level
+  const namespaced = entries.some((info) => info.namespace !== undefined);
+  const now = Date.now();
+  const header = ["AGE", "SIZE", ...(namespaced ? ["NAMESPACE"] : []), "SLUG", "PARAMS"];
+  const rows = entries.map((info) => [
+    describeAge(info, now),
+    formatBytes(info.size),
+    ...(namespaced ? [info.namespace ?? ""] : []),
+    info.slug,
+    info.params ? JSON.stringify(info.params) : "",
+  ]);
+  rows.unshift(header);
+
+  // The last column isn't padded
+  const widths = header.slice(0, -1).map((_, column) =>
+    Math.max(...rows.map((row) => row[column]?.length ?? 0))
+  );
+  rows.forEach((row) => {
+    io.log(row.map((cell, column) => cell.padEnd(widths[column] ?? 0)).join("  ").trimEnd());
+  });
+
+  return 0;
+}
+
+function showCommand(
+  cacheDir: string,
+  namespace: string | undefined,
+  slug: string,
+  paramsJson: string | undefined,
+  io: CliIO
+): number {
+  // With explicit params the entry can be located directly by its key, in each namespace
+  if (paramsJson !== undefined) {
+    const key = generateCacheKey(slug, JSON.parse(paramsJson) as ISbStoryParams);
+    const found = listEntryDirs(cacheDir, namespace).flatMap(({ namespace: name, dir }) => {
+      const cached = readFromCache(key, dir, false, { track: false });
+      return cached === null ? [] : [{ path: name === "" ? key : `${name}/${key}`, cached }];
+    });
+    if (found.length === 0) {
+      io.error(`No cached entry for ${slug} with params ${paramsJson}`);
+      return 1;
+    }
+    found.forEach(({ path, cached }) => {
+      // A single match prints as plain JSON, so it can be piped
+      if (found.length > 1) {
+        io.log(`# ${path}`);
+      }
+      io.log(JSON.stringify(cached, null, 2));
+    });
+    return 0;
+  }
+
+  const matches = inspectCache(cacheDir, namespace).filter(
+    (info) => normalizeSlug(info.slug) === normalizeSlug(slug)
+  );
+  if (matches.length === 0) {
+    io.error(`No cached entries for ${slug}`);
+    return 1;
+  }
+
+  matches.forEach((info) => {
+    io.log(`# ${pathOf(info)}${info.params ? ` ${JSON.stringify(info.params)}` : ""}`);
+    io.log(JSON.stringify(readFromCache(info.key, dirOf(cacheDir, info), false, { track: false }), null, 2));
+  });
+  return 0;
+}
+
+function clearCommand(
+  baseDir: string,
+  namespace: string | undefined,
+  slugPrefix: string | undefined,
+  olderThan: string | undefined,
+  io: CliIO
+): number {
+  const scope = describeScope(baseDir, namespace);
+  if (slugPrefix === undefined && olderThan === undefined) {
+    const deleted = clearCache(baseDir, namespace);
+    io.log(`Deleted ${deleted} cache files from ${scope}`);
+    return 0;
+  }
+
+  const maxAge = olderThan === undefined ? undefined : parseDuration(olderThan);
+  const now = Date.now();
+  const targets = inspectCache(baseDir, namespace).filter((info) => {
+    if (slugPrefix !== undefined && !normalizeSlug(info.slug).startsWith(normalizeSlug(slugPrefix))) {
+      return false;
+    }
+    // Entries without a timestamp have unknown age and are treated as infinitely old
+    if (maxAge !== undefined && now - (info.timestamp ?? 0) < maxAge) {
+      return false;
+    }
+    return true;
+  });
+
+  targets.forEach((info) => deleteFromCache(info.key, dirOf(baseDir, info)));
+  io.log(`Deleted ${targets.length} cache files from ${scope}`);
+  return 0;
+}
+
+function pruneCommand(
+  cacheDir: string,
+  namespace: string | undefined,
+  ttl: string | undefined,
+  io: CliIO
+): number {
+  const maxAge = ttl === undefined ? undefined : parseDuration(ttl);
+  const now = Date.now();
+  const targets = inspectCache(cacheDir, namespace).filter(
+    (info) => info.corrupted || (maxAge !== undefined && now - (info.timestamp ?? 0) >= maxAge)
+  );
+
+  targets.forEach((info) => {
+    deleteFromCache(info.key, dirOf(cacheDir, info));
+    io.log(`Removed ${pathOf(info)}${info.corrupted ? " (corrupt)" : ""}`);
+  });
+
+  const quarantined = listQuarantined(cacheDir, namespace);
+  quarantined.forEach((file) => io.log(`Removed ${file}`));
+  listEntryDirs(cacheDir, namespace).forEach(({ dir }) => {
+    rmSync(join(process.cwd(), dir, QUARANTINE_DIR), { recursive: true, force: true });
+  });
+
+  const pruned = targets.length + quarantined.length;
+  io.log(`Pruned ${pruned} cache files from ${describeScope(cacheDir, namespace)}`);
+  return 0;
+}
+
+function statsCommand(cacheDir: string, namespace: string | undefined, io: CliIO): number {
+  const entries = inspectCache(cacheDir, namespace);
+  const now = Date.now();
+  const timestamps = entries
+    .map((info) => info.timestamp)
+    .filter((timestamp): timestamp is number => timestamp !== undefined);
+  const totalBytes = entries.reduce((sum, info) => sum + info.size, 0);
+
+  io.log(`Directory: ${describeScope(cacheDir, namespace)}`);
+  io.log(`Entries:   ${entries.length}`);
+  io.log(`Size:      ${formatBytes(totalBytes)}`);
+  const corrupted = entries.filter((info) => info.corrupted).length;
+  io.log(`Corrupted: ${corrupted} (${listQuarantined(cacheDir, namespace).length} quarantined)`);
+  if (timestamps.length > 0) {
+    io.log(`Oldest:    ${formatAge(now - Math.min(...timestamps))}`);
+    io.log(`Newest:    ${formatAge(now - Math.max(...timestamps))}`);
+  }
+
+  // Group by endpoint, e.g. cdn/stories or cdn/datasource_entries
+  const byEndpoint = new Map<string, number>();
+  entries.forEach((info) => {
+    const endpoint = normalizeSlug(info.slug).split("/").slice(0, 2).join("/");
+    byEndpoint.set(endpoint, (byEndpoint.get(endpoint) ?? 0) + 1);
+  });
+  [...byEndpoint.entries()]
+    .sort(([, a], [, b]) => b - a)
+    .forEach(([endpoint, count]) => {
+      io.log(`  ${endpoint || "(root)"}: ${count}`);
+    });
+
+  return 0;
+}
+
+function namespacesCommand(cacheDir: string, io: CliIO): number {
+  const namespaces = listNamespaces(cacheDir);
+  if (namespaces.length === 0) {
+    io.log(`No namespaces in ${cacheDir}`);
+    return 0;
+  }
+
+  namespaces.forEach((namespace) => {
+    io.log(`${namespace}  ${listCacheKeys(join(cacheDir, namespace)).length} entries`);
+  });
+  return 0;
+}
+
+function exportCommand(cacheDir: string, file: string, io: CliIO): number {
+  const { entries, bytes } = exportSnapshot(file, { cacheDir });
+  io.log(`Exported ${entries} entries (${formatBytes(bytes)}) from ${cacheDir} to ${file}`);
+  return 0;
+}
+
+function importCommand(cacheDir: string, file: string, io: CliIO): number {
+  const { entries, bytes } = importSnapshot(file, { cacheDir });
+  io.log(`Imported ${entries} entries (${formatBytes(bytes)}) from ${file} into ${cacheDir}`);
+  return 0;
+}
+
+/**
+ * Runs the storyblok-cache command-line tool
+ *
+ * @param argv - The arguments after the executable name
+ * @param io - Output streams
+ * @returns The process exit code
+ *
+ * @example
+ * ```bash
+ * storyblok-cache list
+ * storyblok-cache show cdn/stories/home
+ * storyblok-cache clear --slug-prefix cdn/stories/blog --older-than 7d
+ * ```
+ */
+export function runCli(argv: string[], io: CliIO = console): number {
+  try {
+    const { values, positionals } = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        dir: { type: "string" },
+        params: { type: "string" },
+        namespace: { type: "string" },
+        "slug-prefix": { type: "string" },
+        "older-than": { type: "string" },
+        ttl: { type: "string" },
+        help: { type: "boolean", short: "h" },
+      },
+    });
+
+    const [command, ...rest] = positionals;
+    const cacheDir = values.dir ?? CACHE_DIR;
+
+    if (values.help || command === undefined) {
+      io.log(USAGE);
+      return command === undefined && !values.help ? 1 : 0;
+    }
+
+    switch (command) {
+      case "list":
+        return listCommand(cacheDir, values.namespace, io);
+      case "show":
+        if (rest[0] === undefined) {
+          io.error("Missing <slug> for show");
+          return 1;
+        }
+        return showCommand(cacheDir, values.namespace, rest[0], values.params, io);
+      case "clear":
+        return clearCommand(cacheDir, values.namespace, values["slug-prefix"], values["older-than"], io);
+      case "prune":
+        return pruneCommand(cacheDir, values.namespace, values.ttl, io);
+      case "stats":
+        return statsCommand(cacheDir, values.namespace, io);
+      case "namespaces":
+        return namespacesCommand(cacheDir, io);
+      case "export":
+      case "import":
+        if (rest[0] === undefined) {
+          io.error(`Missing <file> for ${command}`);
+          return 1;
+        }
+        return command === "export"
+          ? exportCommand(cacheDir, rest[0], io)
+          : importCommand(cacheDir, rest[0], io);
+      default:
+        io.error(`Unknown command: ${command}\n\n${USAGE}`);
+        return 1;
+    }
+  } catch (error) {
+    io.error(error instanceof Error ? error.message : String(error));
+    return 1;
+  }
+}
@@ -0,0 +1,85 @@
+import type { ISbCustomFetch, ISbStoriesParams, Storyblok as StoryblokClient } from "storyblok-js-client";
+import type { CacheDirectiveParams } from "./directive.js";
+
+// Marks cached clients, so wrapping one again can be detected
+const CACHED_CLIENT = Symbol.for("storyblok-cached-api.client");
+
+/**
+ * A Storyblok client whose `get` is served through the cache
+ */
+export type CachedStoryblokClient = StoryblokClient & {
+  /**
+   * Queries the API through the cache; a `cache` parameter overrides how this call uses it
+   */
+  get(
+    slug: string,
+    params?: CacheDirectiveParams<ISbStoriesParams>,
+    fetchOptions?: ISbCustomFetch
+  ): ReturnType<StoryblokClient["get"]>;
+
+  /**
+   * The wrapped client, for requests that must bypass the cache
+   */
+  readonly uncached: StoryblokClient;
+};
+
+/**
+ * Checks whether a client was returned by createCachedClient
+ *
+ * @param client - The Storyblok client to check
+ * @returns True if the client caches its requests
+ */
+export function isCachedClient(client: unknown): client is CachedStoryblokClient {
+  return typeof client === "object" && client !== null && CACHED_CLIENT in client;
+}
+
+// Methods that read through `this.get`, so calling them on the proxy caches them too
+const READ_THROUGH_METHODS: PropertyKey[] = ["getStory", "getStories"];
+
+/**
+ * Returns a proxy around a client that serves the given methods from their
+ * caching replacements and leaves the client itself untouched
+ *
+ * Other methods are bound to the original client, so they keep working with its
+ * internal state.
+ *
+ * @param client - The client to wrap
+ * @param overrides - The caching replacements for the client's read methods
+ * @returns The cached client
+ */
+export function createClientProxy(
+  client: StoryblokClient,
+  overrides: Pick<StoryblokClient, "get" | "getAll">
+): CachedStoryblokClient {
+  const bound = new Map<PropertyKey, unknown>();
+
+  const proxy = new Proxy(client, {
+    get(target, property) {
+      if (property === "get" || property === "getAll") {
+        return overrides[property];
+      }
+      if (property === "uncached") {
+        return client;
+      }
+      if (property === CACHED_CLIENT) {
+        return true;
+      }
+
+      const value: unknown = Reflect.get(target, property, target);
+      if (typeof value !== "function") {
+        return value;
+      }
+      // Bind once, so a method read twice is the same function
+      if (!bound.has(property)) {
+        const thisArg = READ_THROUGH_METHODS.includes(property) ? proxy : target;
+        bound.set(property, (value as (...args: unknown[]) => unknown).bind(thisArg));
+      }
+      return bound.get(property);
+    },
+    has(target, property) {
+      return property === CACHED_CLIENT || property === "uncached" || Reflect.has(target, property);
+    },
+  }) as CachedStoryblokClient;
+
+  return proxy;
+}
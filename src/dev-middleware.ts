@@ -0,0 +1,8 @@
+import type { MiddlewareHandler } from "astro";
+import { trackPage } from "./dev-tools.js";
+
+/**
+ * Records the cache entries each page uses, for the dev toolbar app.
+ * Added in development by the Astro integration.
+ */
+export const onRequest: MiddlewareHandler = (context, next) => trackPage(context.url.pathname, next);
@@ -0,0 +1,237 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { join } from "node:path";
+import { CACHE_DIR, clearCache, deleteFromCache } from "./cache.js";
+import type { CacheHitEvent, CacheRequestEvent } from "./hooks.js";
+import type { CachedApiOptions } from "./index.js";
+import { addInvalidationListener } from "./invalidation.js";
+import { memoryTiers } from "./memory-cache.js";
+import { reverseIndexes } from "./reverse-index.js";
+import type { CacheStore } from "./stores.js";
+import type { PageEntry } from "./toolbar-events.js";
+
+// Shared through globalThis, because Vite may load the middleware as a separate copy of this module
+const DEV_TOOLS = Symbol.for("storyblok-cached-api.dev-tools");
+
+/**
+ * What the dev server does when wrappers report cache activity
+ */
+export interface DevServerHandlers {
+  /**
+   * A wrapper caches into this directory
+   */
+  watch: (cacheDir: string) => void;
+
+  /**
+   * A wrapper wrote an entry file, so the change on disk is its own
+   */
+  written: (path: string) => void;
+
+  /**
+   * Entries were invalidated in a cache a wrapper uses
+   */
+  invalidated: () => void;
+}
+
+interface TrackedEntry extends PageEntry {
+  remove: () => Promise<void>;
+}
+
+interface DevToolsState {
+  // The pathname of the page being rendered
+  page: AsyncLocalStorage<string>;
+  pages: Map<string, Map<string, TrackedEntry>>;
+  cacheDirs: Set<string>;
+  stores: Set<CacheStore>;
+  server?: DevServerHandlers;
+}
+
+// Caches whose invalidations reach the dev server. Kept per copy of this module, like the
+// invalidation listeners themselves.
+const listening = new Set<string | CacheStore>();
+
+function getState(): DevToolsState {
+  const scope = globalThis as unknown as Record<symbol, DevToolsState | undefined>;
+  let state = scope[DEV_TOOLS];
+  if (!state) {
+    state = {
+      page: new AsyncLocalStorage(),
+      pages: new Map(),
+      cacheDirs: new Set(),
+      stores: new Set(),
+    };
+    scope[DEV_TOOLS] = state;
+  }
+  return state;
+}
+
+/**
+ * Connects the dev server, so wrappers created from now on report to it
+ *
+ * @param handlers - What to do on cache activity
+ * @returns A function disconnecting the server again
+ */
+export function registerDevServer(handlers: DevServerHandlers): () => void {
+  const state = getState();
+  state.server = handlers;
+  state.cacheDirs.forEach((cacheDir) => handlers.watch(cacheDir));
+
+  return () => {
+    if (state.server === handlers) {
+      state.server = undefined;
+    }
+  };
+}
+
+/**
+ * Renders a page, recording the cache entries it uses
+ *
+ * @param pathname - The pathname of the page
+ * @param render - Renders the page
+ * @returns The result of render
+ */
+export function trackPage<T>(pathname: string, render: () => T): T {
+  const state = getState();
+  state.pages.set(pathname, new Map());
+  return state.page.run(pathname, render);
+}
+
+/**
+ * Lists the cache entries used by the last render of a page
+ *
+ * @param pathname - The pathname of the page
+ * @returns The entries, sorted by slug
+ */
+export function getPageEntries(pathname: string): PageEntry[] {
+  const entries = [...(getState().pages.get(pathname)?.values() ?? [])];
+  return entries
+    .map(({ remove: _remove, ...entry }) => entry)
+    .sort((a, b) => a.slug.localeCompare(b.slug) || a.id.localeCompare(b.id));
+}
+
+/**
+ * Deletes cache entries used by a page, so the next render fetches them again
+ *
+ * @param pathname - The pathname of the page
+ * @param ids - The entries to delete; all of the page's entries when omitted
+ * @returns The number of deleted entries
+ */
+export async function refreshPageEntries(pathname: string, ids?: string[]): Promise<number> {
+  const entries = getState().pages.get(pathname);
+  if (!entries) {
+    return 0;
+  }
+
+  let removed = 0;
+  for (const [id, entry] of entries) {
+    if (ids === undefined || ids.includes(id)) {
+      await entry.remove();
+      entries.delete(id);
+      removed++;
+    }
+  }
+  return removed;
+}
+
+/**
+ * Clears every cache directory and store used by wrappers since the dev server started
+ *
+ * @returns The number of deleted filesystem entries
+ */
+export async function clearDevCaches(): Promise<number> {
+  const state = getState();
+  let deleted = 0;
+
+  state.cacheDirs.forEach((cacheDir) => {
+    deleted += clearCache(cacheDir);
+  });
+  for (const store of state.stores) {
+    await store.clear();
+    memoryTiers.get(store)?.clear();
+    reverseIndexes.delete(store);
+  }
+  state.pages.clear();
+
+  return deleted;
+}
+
+// Reports invalidations in a cache directory or store to whichever dev server is connected.
+// One listener per cache, not per wrapper, as pages create a wrapper on every render.
+function listenForInvalidations(cacheDirOrStore: string | CacheStore): void {
+  if (listening.has(cacheDirOrStore)) {
+    return;
+  }
+  listening.add(cacheDirOrStore);
+  addInvalidationListener(cacheDirOrStore, () => getState().server?.invalidated());
+}
+
+/**
+ * Adds the dev server's hooks to a wrapper's options, when a dev server is connected
+ *
+ * Requests are recorded for the page being rendered, writes are reported so the
+ * server can tell them from changes made by others, and invalidations in the wrapper's
+ * cache reload the page.
+ *
+ * @param options - The wrapper's options
+ * @returns The options with the dev server's hooks chained before the wrapper's own
+ */
+export function withDevTools(options?: CachedApiOptions): CachedApiOptions | undefined {
+  const state = getState();
+  const server = state.server;
+  if (!server) {
+    return options;
+  }
+
+  const { cacheDir = CACHE_DIR, store } = options ?? {};
+  if (store) {
+    state.stores.add(store);
+  } else if (!state.cacheDirs.has(cacheDir)) {
+    state.cacheDirs.add(cacheDir);
+    server.watch(cacheDir);
+  }
+  listenForInvalidations(store ?? cacheDir);
+
+  const dirOf = (namespace?: string) => (namespace === undefined ? cacheDir : join(cacheDir, namespace));
+
+  const track = (event: CacheRequestEvent, source: PageEntry["source"]) => {
+    const pathname = state.page.getStore();
+    const entries = pathname === undefined ? undefined : state.pages.get(pathname);
+    if (!entries) {
+      return;
+    }
+
+    const { cacheKey, namespace, slug, params } = event;
+    const id = namespace === undefined ? cacheKey : `${namespace}/${cacheKey}`;
+    entries.set(id, {
+      id,
+      cacheKey,
+      ...(namespace !== undefined && { namespace }),
+      slug,
+      ...(params !== undefined && { params: { ...params } }),
+      source,
+      remove: store
+        ? async () => {
+            await store.delete(cacheKey);
+            memoryTiers.get(store)?.delete(cacheKey);
+            reverseIndexes.get(store)?.remove(cacheKey);
+          }
+        : async () => {
+            deleteFromCache(cacheKey, dirOf(namespace));
+          },
+    });
+  };
+
+  return {
+    ...options,
+    onHit: (event: CacheHitEvent) => {
+      track(event, event.tier);
+      options?.onHit?.(event);
+    },
+    onWrite: (event) => {
+      track(event, "api");
+      if (!store) {
+        server.written(join(process.cwd(), dirOf(event.namespace), event.cacheKey));
+      }
+      options?.onWrite?.(event);
+    },
+  };
+}
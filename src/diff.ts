@@ -0,0 +1,552 @@
+import { join } from "node:path";
+import type { ISbStoryParams, Storyblok as StoryblokClient } from "storyblok-js-client";
+import { CACHE_DIR, deleteFromCache, isCacheEntry, listCacheKeys, listNamespaces, readFromCache, writeToCache } from "./cache.js";
+import type { CacheKeyOptions } from "./cache.js";
+import { isCachedClient } from "./client.js";
+import type { CacheEntry } from "./entry.js";
+import { resolveLogger } from "./logger.js";
+import type { CacheLogger } from "./logger.js";
+import { memoryTiers } from "./memory-cache.js";
+import { selectParams } from "./params.js";
+import { serializeResponse } from "./response.js";
+import type { SerializedResponse } from "./response.js";
+import { getErrorStatus } from "./retry.js";
+
+/**
+ * A field that differs between the cached and the live response
+ */
+export interface FieldChange {
+  /**
+   * Path of the field, e.g. `content.body[_uid=abc].title`. Array items are
+   * matched by `_uid`, `uuid` or `id` when they have one, by position otherwise.
+   */
+  path: string;
+
+  /**
+   * `added`: only in the live response, `removed`: only in the cached one,
+   * `changed`: in both with different values
+   */
+  type: "added" | "removed" | "changed";
+
+  /**
+   * The cached value, unless the field was added
+   */
+  cached?: unknown;
+
+  /**
+   * The live value, unless the field was removed
+   */
+  live?: unknown;
+}
+
+/**
+ * A story that differs between the cached and the live response
+ */
+export interface StoryDiff {
+  /**
+   * The story id
+   */
+  id?: number;
+
+  /**
+   * The story full slug
+   */
+  slug?: string;
+
+  /**
+   * `added` and `removed` stories are only in one of the responses, e.g. a listing
+   */
+  status: "added" | "removed" | "changed";
+
+  /**
+   * The changed fields of a `changed` story, with paths relative to the story
+   */
+  changes: FieldChange[];
+}
+
+/**
+ * A cache entry that no longer matches what Storyblok returns
+ */
+export interface EntryDiff {
+  /**
+   * The cache key, prefixed with the namespace if there is one (e.g. `staging/draft/<key>`)
+   */
+  key: string;
+
+  /**
+   * The Storyblok path the entry was requested with
+   */
+  slug: string;
+
+  /**
+   * The request parameters the entry was re-fetched with, without volatile ones such as `cv`
+   */
+  params?: ISbStoryParams;
+
+  /**
+   * `removed` if Storyblok answers with a 404 now
+   */
+  status: "changed" | "removed";
+
+  /**
+   * The stories that differ
+   */
+  stories: StoryDiff[];
+
+  /**
+   * Changed fields outside of stories, e.g. datasource entries or links
+   */
+  changes: FieldChange[];
+
+  /**
+   * True if the entry was overwritten with the live response, or deleted if removed
+   */
+  refreshed: boolean;
+}
+
+/**
+ * Configuration options for diffCache
+ */
+export interface DiffCacheOptions {
+  /**
+   * Directory path for cache storage
+   * @default '.sb-dev-cache'
+   */
+  cacheDir?: string;
+
+  /**
+   * Only compare entries in this namespace (e.g. `a1b2c3d4e5f6/draft`).
+   * Entries of every namespace are compared by default.
+   */
+  namespace?: string;
+
+  /**
+   * Only compare entries whose slug starts with this prefix
+   */
+  slugPrefix?: string;
+
+  /**
+   * The cacheKey options the entries were written with. Their `ignoreParams`
+   * are left out when re-fetching, like `cv`, which is always left out, so a
+   * stale cache version can't make the CDN answer with an old response.
+   * @default { ignoreParams: ['cv'] }
+   */
+  cacheKey?: CacheKeyOptions;
+
+  /**
+   * Fields of the response body to leave out of the comparison, by path.
+   * Fields of stories are given as `story.<path>`, e.g. `story.published_at`.
+   * @default ['cv']
+   */
+  ignore?: string[];
+
+  /**
+   * Overwrite changed entries with the live response, and delete removed ones
+   * @default false
+   */
+  refresh?: boolean;
+
+  /**
+   * Maximum number of requests in flight at once
+   * @default 4
+   */
+  concurrency?: number;
+
+  /**
+   * Enable console logging for compared entries
+   * @default true
+   */
+  verbose?: boolean;
+
+  /**
+   * Where log output goes when `verbose` is enabled
+   * @default console
+   */
+  logger?: CacheLogger;
+}
+
+/**
+ * Outcome of a diffCache run
+ */
+export interface CacheDiffResult {
+  /**
+   * Number of entries compared with the live response
+   */
+  checked: number;
+
+  /**
+   * Number of entries that still match
+   */
+  unchanged: number;
+
+  /**
+   * Entries that no longer match, sorted by key
+   */
+  changed: EntryDiff[];
+
+  /**
+   * Entries whose live response could not be fetched
+   */
+  failed: Array<{ key: string; slug: string; error: unknown }>;
+
+  /**
+   * Entries that can't be compared: legacy entries without a recorded slug, and cached failures
+   */
+  skipped: string[];
+}
+
+interface Candidate {
+  key: string;
+  dir: string;
+  cacheKey: string;
+  entry: CacheEntry<SerializedResponse>;
+  slug: string;
+}
+
+interface StoryData {
+  id?: unknown;
+  full_slug?: unknown;
+}
+
+// Keys identifying array items, in order of preference
+const ITEM_KEYS = ["_uid", "uuid", "id"];
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function itemKey(item: unknown): string | undefined {
+  if (!isObject(item)) {
+    return undefined;
+  }
+  const name = ITEM_KEYS.find((key) => typeof item[key] === "string" || typeof item[key] === "number");
+  return name === undefined ? undefined : `${name}=${String(item[name])}`;
+}
+
+function joinPath(path: string, field: string): string {
+  return path === "" ? field : `${path}.${field}`;
+}
+
+/**
+ * Compares two JSON values field by field
+ *
+ * @param cached - The cached value
+ * @param live - The live value
+ * @param path - Path of the values, prefixed to every reported field
+ * @param ignore - Paths to leave out
+ * @returns The added, removed and changed fields
+ */
+export function diffValues(cached: unknown, live: unknown, path = "", ignore: string[] = []): FieldChange[] {
+  if (ignore.includes(path)) {
+    return [];
+  }
+
+  if (isObject(cached) && isObject(live)) {
+    const fields = [...new Set([...Object.keys(cached), ...Object.keys(live)])].sort();
+    return fields.flatMap((field) => {
+      const fieldPath = joinPath(path, field);
+      if (ignore.includes(fieldPath)) {
+        return [];
+      }
+      if (!(field in live)) {
+        return [{ path: fieldPath, type: "removed" as const, cached: cached[field] }];
+      }
+      if (!(field in cached)) {
+        return [{ path: fieldPath, type: "added" as const, live: live[field] }];
+      }
+      return diffValues(cached[field], live[field], fieldPath, ignore);
+    });
+  }
+
+  if (Array.isArray(cached) && Array.isArray(live)) {
+    // Items that can be identified are matched by identity, so a reorder isn't a change of every item
+    const keyed = [...cached, ...live].every((item) => itemKey(item) !== undefined);
+    if (!keyed) {
+      return Array.from({ length: Math.max(cached.length, live.length) }, (_, index) => {
+        const itemPath = `${path}[${index}]`;
+        if (index >= live.length) {
+          return [{ path: itemPath, type: "removed" as const, cached: cached[index] }];
+        }
+        if (index >= cached.length) {
+          return [{ path: itemPath, type: "added" as const, live: live[index] }];
+        }
+        return diffValues(cached[index], live[index], itemPath, ignore);
+      }).flat();
+    }
+
+    const liveItems = new Map(live.map((item) => [itemKey(item) as string, item]));
+    const cachedItems = new Map(cached.map((item) => [itemKey(item) as string, item]));
+    const changes: FieldChange[] = [];
+    cachedItems.forEach((item, key) => {
+      const itemPath = `${path}[${key}]`;
+      changes.push(
+        ...(liveItems.has(key)
+          ? diffValues(item, liveItems.get(key), itemPath, ignore)
+          : [{ path: itemPath, type: "removed" as const, cached: item }])
+      );
+    });
+    liveItems.forEach((item, key) => {
+      if (!cachedItems.has(key)) {
+        changes.push({ path: `${path}[${key}]`, type: "added", live: item });
+      }
+    });
+    // Moving an item is a change of the array's order
+    const order = (items: unknown[]) => items.map((item) => itemKey(item)).join(",");
+    if (changes.length === 0 && order(cached) !== order(live)) {
+      changes.push({ path, type: "changed", cached: cached.map(itemKey), live: live.map(itemKey) });
+    }
+    return changes;
+  }
+
+  return JSON.stringify(cached) === JSON.stringify(live) ? [] : [{ path, type: "changed", cached, live }];
+}
+
+function describeStory(story: StoryData): Pick<StoryDiff, "id" | "slug"> {
+  return {
+    ...(typeof story.id === "number" && { id: story.id }),
+    ...(typeof story.full_slug === "string" && { slug: story.full_slug }),
+  };
+}
+
+/**
+ * Splits the differences of two response bodies into stories and the remaining fields
+ */
+function diffBodies(cached: unknown, live: unknown, ignore: string[]): Pick<EntryDiff, "stories" | "changes"> {
+  const cachedBody = isObject(cached) ? cached : {};
+  const liveBody = isObject(live) ? live : {};
+  const stories: StoryDiff[] = [];
+  // Paths inside stories are ignored as `story.<path>`, for single stories and listings alike
+  const storyIgnore = ignore.filter((path) => path.startsWith("story.")).map((path) => path.slice(6));
+
+  if (isObject(cachedBody["story"]) && isObject(liveBody["story"])) {
+    const changes = diffValues(cachedBody["story"], liveBody["story"], "", storyIgnore);
+    if (changes.length > 0) {
+      stories.push({ ...describeStory(liveBody["story"]), status: "changed", changes });
+    }
+  }
+
+  if (Array.isArray(cachedBody["stories"]) && Array.isArray(liveBody["stories"])) {
+    const byId = (list: unknown[]) =>
+      new Map(list.filter(isObject).map((story) => [String(story["id"] ?? story["uuid"]), story]));
+    const cachedStories = byId(cachedBody["stories"]);
+    const liveStories = byId(liveBody["stories"]);
+
+    cachedStories.forEach((story, id) => {
+      const liveStory = liveStories.get(id);
+      if (!liveStory) {
+        stories.push({ ...describeStory(story), status: "removed", changes: [] });
+        return;
+      }
+      const changes = diffValues(story, liveStory, "", storyIgnore);
+      if (changes.length > 0) {
+        stories.push({ ...describeStory(liveStory), status: "changed", changes });
+      }
+    });
+    liveStories.forEach((story, id) => {
+      if (!cachedStories.has(id)) {
+        stories.push({ ...describeStory(story), status: "added", changes: [] });
+      }
+    });
+  }
+
+  // Stories are compared above, everything else field by field
+  const rest = (body: Record<string, unknown>) =>
+    Object.fromEntries(
+      Object.entries(body).filter(([field]) =>
+        !(field === "story" && isObject(cachedBody[field]) && isObject(liveBody[field])) &&
+        !(field === "stories" && Array.isArray(cachedBody[field]) && Array.isArray(liveBody[field]))
+      )
+    );
+
+  return { stories, changes: diffValues(rest(cachedBody), rest(liveBody), "", ignore) };
+}
+
+/**
+ * Collects the entries to compare, with the keys of the ones that can't be
+ */
+function collectEntries(
+  cacheDir: string,
+  namespace: string | undefined,
+  slugPrefix: string | undefined
+): { candidates: Candidate[]; skipped: string[] } {
+  const namespaces = namespace === undefined ? ["", ...listNamespaces(cacheDir)] : [namespace];
+  const prefix = slugPrefix?.replace(/^\//, "");
+  const candidates: Candidate[] = [];
+  const skipped: string[] = [];
+
+  namespaces.forEach((name) => {
+    const dir = name === "" ? cacheDir : join(cacheDir, name);
+    listCacheKeys(dir).forEach((cacheKey) => {
+      const key = name === "" ? cacheKey : `${name}/${cacheKey}`;
+      const cached = readFromCache(cacheKey, dir, false, { track: false });
+      if (!isCacheEntry<SerializedResponse>(cached) || cached.slug === undefined || cached.error) {
+        skipped.push(key);
+        return;
+      }
+      const slug = cached.slug.replace(/^\//, "");
+      if (prefix === undefined || slug.startsWith(prefix)) {
+        candidates.push({ key, dir, cacheKey, entry: cached, slug });
+      }
+    });
+  });
+
+  return { candidates, skipped };
+}
+
+/**
+ * Re-fetches every cached entry with its original slug and params and compares
+ * the live response with the cached one, story by story
+ *
+ * Requests go to the client itself, never through a cache: a cached client is
+ * unwrapped first. Entries of every namespace are compared unless `namespace`
+ * is set, so pass the client of the matching space.
+ *
+ * @param client - The Storyblok client to fetch live responses with
+ * @param options - Which entries to compare, and whether to refresh changed ones
+ * @returns The entries that changed, failed or could not be compared
+ *
+ * @example
+ * ```typescript
+ * import StoryblokClient from 'storyblok-js-client';
+ * import { diffCache, formatCacheDiff } from 'storyblok-cached-api';
+ *
+ * const client = new StoryblokClient({ accessToken: process.env.STORYBLOK_TOKEN });
+ * const result = await diffCache(client, { slugPrefix: 'cdn/stories', refresh: true });
+ * console.log(formatCacheDiff(result));
+ * ```
+ */
+export async function diffCache(client: StoryblokClient, options: DiffCacheOptions = {}): Promise<CacheDiffResult> {
+  const {
+    cacheDir = CACHE_DIR,
+    namespace,
+    slugPrefix,
+    ignore = ["cv"],
+    refresh = false,
+    concurrency = 4,
+    verbose = true,
+  } = options;
+  const logger = resolveLogger(verbose, options.logger);
+  const live = isCachedClient(client) ? client.uncached : client;
+  const volatileParams = ["cv", ...(options.cacheKey?.ignoreParams ?? [])];
+
+  const { candidates, skipped } = collectEntries(cacheDir, namespace, slugPrefix);
+  const result: CacheDiffResult = { checked: 0, unchanged: 0, changed: [], failed: [], skipped };
+
+  const compare = async ({ key, dir, cacheKey, entry, slug }: Candidate) => {
+    const params = entry.params && selectParams(entry.params, volatileParams);
+    let response: Awaited<ReturnType<StoryblokClient["get"]>> | undefined;
+    try {
+      // A copy, since the client adds its own parameters to the object it is given
+      response = await live.get(slug, params && { ...params });
+    } catch (error) {
+      if (getErrorStatus(error) !== 404) {
+        logger.warn(`[Cache] Error fetching ${slug}:`, error);
+        result.failed.push({ key, slug, error });
+        return;
+      }
+    }
+    result.checked++;
+
+    const diff: EntryDiff = {
+      key,
+      slug,
+      ...(params !== undefined && { params }),
+      status: response === undefined ? "removed" : "changed",
+      ...(response === undefined
+        ? { stories: [], changes: [] }
+        : diffBodies(entry.data.data, response.data, ignore)),
+      refreshed: false,
+    };
+
+    if (diff.status === "changed" && diff.stories.length === 0 && diff.changes.length === 0) {
+      result.unchanged++;
+      return;
+    }
+
+    logger.log(`[Cache] ≠ ${diff.status === "removed" ? "Removed upstream" : "Changed"}: ${slug}`);
+    if (refresh) {
+      if (response === undefined) {
+        deleteFromCache(cacheKey, dir);
+      } else {
+        const responseCv = (response.data as { cv?: unknown } | undefined)?.cv;
+        const refreshed: CacheEntry<SerializedResponse> = {
+          timestamp: Date.now(),
+          slug: entry.slug,
+          params,
+          ...(typeof responseCv === "number" && { cv: responseCv }),
+          ...(entry.tags && { tags: entry.tags }),
+          data: serializeResponse(response),
+        };
+        writeToCache(cacheKey, refreshed, dir, false);
+        memoryTiers.get(dir)?.delete(cacheKey);
+      }
+      diff.refreshed = true;
+    }
+    result.changed.push(diff);
+  };
+
+  let next = 0;
+  const worker = async () => {
+    while (next < candidates.length) {
+      await compare(candidates[next++] as Candidate);
+    }
+  };
+  await Promise.all(
+    Array.from({ length: Math.max(1, Math.min(concurrency, candidates.length)) }, worker)
+  );
+
+  result.changed.sort((a, b) => a.key.localeCompare(b.key));
+  return result;
+}
+
+function formatValue(value: unknown): string {
+  const json = JSON.stringify(value) ?? "undefined";
+  return json.length > 60 ? `${json.slice(0, 57)}...` : json;
+}
+
+function formatChange({ path, type, cached, live }: FieldChange): string {
+  const label = path === "" ? "(value)" : path;
+  if (type === "added") {
+    return `+ ${label}: ${formatValue(live)}`;
+  }
+  if (type === "removed") {
+    return `- ${label}: ${formatValue(cached)}`;
+  }
+  return `~ ${label}: ${formatValue(cached)} → ${formatValue(live)}`;
+}
+
+const STATUS_MARKS = { added: "+", removed: "-", changed: "~" } as const;
+
+/**
+ * Formats a diffCache result as plain text for terminals and CI logs
+ *
+ * @param result - The result of diffCache
+ * @returns One line per changed entry, story and field, followed by a summary
+ */
+export function formatCacheDiff(result: CacheDiffResult): string {
+  const lines: string[] = [];
+
+  result.changed.forEach((diff) => {
+    const params = diff.params && Object.keys(diff.params).length > 0 ? ` ${JSON.stringify(diff.params)}` : "";
+    const refreshed = diff.refreshed ? (diff.status === "removed" ? " (deleted)" : " (refreshed)") : "";
+    lines.push(`${STATUS_MARKS[diff.status]} ${diff.slug}${params}${refreshed}`);
+
+    diff.stories.forEach((story) => {
+      const name = story.slug ?? (story.id === undefined ? "(story)" : String(story.id));
+      lines.push(`    ${STATUS_MARKS[story.status]} story ${name}`);
+      story.changes.forEach((change) => lines.push(`        ${formatChange(change)}`));
+    });
+    diff.changes.forEach((change) => lines.push(`    ${formatChange(change)}`));
+  });
+
+  result.failed.forEach(({ slug, error }) => {
+    lines.push(`! ${slug}: ${error instanceof Error ? error.message : formatValue(error)}`);
+  });
+
+  const removed = result.changed.filter(({ status }) => status === "removed").length;
+  lines.push(
+    `Checked ${result.checked} entries: ${result.unchanged} unchanged, ${result.changed.length - removed} changed, ` +
+      `${removed} removed, ${result.failed.length} failed, ${result.skipped.length} skipped`
+  );
+  return lines.join("\n");
+}
@@ -0,0 +1,76 @@
+import type { ISbStoryParams } from "storyblok-js-client";
+
+/**
+ * Request parameter holding the cache directive of a single call
+ */
+export const DIRECTIVE_PARAM = "cache";
+
+/**
+ * How a single request uses the cache, regardless of the wrapper's mode
+ *
+ * - `bypass`: query the API without reading or writing the cache
+ * - `refresh`: query the API and overwrite the cached entry
+ * - `only-if-cached`: serve any cached entry, expired ones included, and throw CacheMissError on a miss
+ */
+export type CacheRequestMode = "bypass" | "refresh" | "only-if-cached";
+
+/**
+ * Cache settings for a single request
+ */
+export interface CacheControl {
+  /**
+   * How the request uses the cache
+   * @default the wrapper's mode
+   */
+  mode?: CacheRequestMode;
+
+  /**
+   * Time in milliseconds after which the entry is considered expired when read
+   * by this request, instead of `ttl` and `ttlRules`
+   */
+  ttl?: number;
+
+  /**
+   * Labels written with the entry, so it can be invalidated by tag
+   */
+  tags?: string[];
+}
+
+/**
+ * A request mode, or the full cache settings for a single request
+ */
+export type CacheDirective = CacheRequestMode | CacheControl;
+
+/**
+ * Request parameters that may carry a cache directive
+ *
+ * @example
+ * ```typescript
+ * await storyblokApi.get('cdn/stories/preview', { version: 'draft', cache: 'bypass' });
+ * await storyblokApi.get('cdn/datasource_entries', { datasource: 'footer', cache: { ttl: 86_400_000 } });
+ * ```
+ */
+export type CacheDirectiveParams<P = ISbStoryParams> = P & {
+  [DIRECTIVE_PARAM]?: CacheDirective;
+};
+
+/**
+ * Separates the cache directive from the request parameters, so it never reaches
+ * the cache key or the Storyblok API
+ *
+ * @param params - The request parameters, possibly with a directive
+ * @returns The parameters without the directive, and the directive as cache settings
+ */
+export function splitCacheDirective(
+  params?: CacheDirectiveParams
+): { params: ISbStoryParams | undefined; control: CacheControl } {
+  if (!params || !(DIRECTIVE_PARAM in params)) {
+    return { params, control: {} };
+  }
+
+  const { [DIRECTIVE_PARAM]: directive, ...rest } = params;
+  return {
+    params: rest,
+    control: typeof directive === "string" ? { mode: directive } : directive ?? {},
+  };
+}
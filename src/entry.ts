@@ -0,0 +1,72 @@
+import type { ISbStoryParams } from "storyblok-js-client";
+
+/**
+ * An API error cached as a negative result
+ */
+export interface CachedError {
+  /**
+   * The HTTP status of the error response (e.g. 404)
+   */
+  status: number;
+
+  /**
+   * The error message reported by the API
+   */
+  message?: string;
+}
+
+/**
+ * A cached response together with the time it was written
+ */
+export interface CacheEntry<T = unknown> {
+  /**
+   * Unix timestamp in milliseconds of when the entry was written
+   */
+  timestamp: number;
+
+  /**
+   * The Storyblok path the response was requested with
+   */
+  slug?: string;
+
+  /**
+   * The request parameters the response was requested with
+   */
+  params?: ISbStoryParams;
+
+  /**
+   * The space cache version (cv) the response was written under
+   */
+  cv?: number;
+
+  /**
+   * Labels given with the request's cache directive, for invalidation by tag
+   */
+  tags?: string[];
+
+  /**
+   * The cached response
+   */
+  data: T;
+
+  /**
+   * Set instead of a response when the request failed and the failure itself
+   * was cached, so it is reported again without querying the API
+   */
+  error?: CachedError;
+}
+
+/**
+ * Checks whether a value read from disk is a timestamped cache entry
+ * 
+ * @param value - The parsed cache file content
+ * @returns True if the value is a CacheEntry
+ */
+export function isCacheEntry<T = unknown>(value: unknown): value is CacheEntry<T> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as CacheEntry).timestamp === "number" &&
+    "data" in value
+  );
+}
@@ -0,0 +1,69 @@
+import type { ISbStoryParams } from "storyblok-js-client";
+
+/**
+ * Thrown in offline mode when a request has no cached entry
+ */
+export class CacheMissError extends Error {
+  override readonly name = "CacheMissError";
+
+  /**
+   * @param slug - The Storyblok path that was requested
+   * @param params - The request parameters
+   * @param cacheKey - The cache key the entry was expected under
+   */
+  constructor(
+    readonly slug: string,
+    readonly params: ISbStoryParams | undefined,
+    readonly cacheKey: string
+  ) {
+    super(`No cached entry for ${slug} (expected ${cacheKey})`);
+  }
+}
+
+/**
+ * Thrown when a cache lock could not be acquired in time
+ */
+export class CacheLockError extends Error {
+  override readonly name = "CacheLockError";
+
+  /**
+   * @param lockPath - The lock file that was held by another process
+   * @param timeout - How long acquisition was attempted, in milliseconds
+   */
+  constructor(
+    readonly lockPath: string,
+    readonly timeout: number
+  ) {
+    super(`Timed out after ${timeout}ms waiting for lock ${lockPath}`);
+  }
+}
+
+/**
+ * Thrown when a client that already caches its requests is wrapped again
+ */
+export class AlreadyCachedError extends Error {
+  override readonly name = "AlreadyCachedError";
+
+  constructor() {
+    super("The Storyblok client is already cached; wrap the original client or use its `uncached` handle");
+  }
+}
+
+/**
+ * Thrown when a snapshot file cannot be imported: it is not a snapshot, has an
+ * unsupported version, or an entry does not match its checksum
+ */
+export class SnapshotError extends Error {
+  override readonly name = "SnapshotError";
+
+  /**
+   * @param file - The snapshot file
+   * @param reason - Why the snapshot was rejected
+   */
+  constructor(
+    readonly file: string,
+    readonly reason: string
+  ) {
+    super(`Invalid snapshot ${file}: ${reason}`);
+  }
+}
@@ -0,0 +1,208 @@
+import { join } from "node:path";
+import { CACHE_DIR, deleteFromCache, listNamespaces } from "./cache.js";
+import { resolveLogger } from "./logger.js";
+import type { CacheLogger } from "./logger.js";
+import { getManifestRecords, listDirectoryEntries } from "./manifest.js";
+import type { ManifestRecord } from "./manifest.js";
+
+/**
+ * Which entries are evicted first when the cache is over a limit
+ *
+ * - `lru`: the entries read least recently
+ * - `oldest`: the entries written longest ago
+ */
+export type EvictionPolicy = "lru" | "oldest";
+
+/**
+ * Size limits for a cache directory, including every namespace in it
+ */
+export interface CacheLimits {
+  /**
+   * Maximum number of entries kept on disk
+   * @default unlimited
+   */
+  maxEntries?: number;
+
+  /**
+   * Maximum total size of all entry files in bytes
+   * @default unlimited
+   */
+  maxBytes?: number;
+
+  /**
+   * Which entries are evicted first when over a limit
+   * @default 'lru'
+   */
+  evictionPolicy?: EvictionPolicy;
+}
+
+/**
+ * Configuration options for pruneCache
+ */
+export interface PruneCacheOptions extends CacheLimits {
+  /**
+   * Directory path for cache storage
+   * @default '.sb-dev-cache'
+   */
+  cacheDir?: string;
+
+  /**
+   * Enable console logging for evicted entries
+   * @default true
+   */
+  verbose?: boolean;
+
+  /**
+   * Where log output goes when `verbose` is enabled
+   * @default console
+   */
+  logger?: CacheLogger;
+}
+
+/**
+ * Outcome of an eviction pass
+ */
+export interface PruneResult {
+  /**
+   * The evicted cache keys; keys inside a namespace are prefixed with it (e.g. `space/draft/key.json`)
+   */
+  removed: string[];
+
+  /**
+   * Total size of the evicted files in bytes
+   */
+  freedBytes: number;
+
+  /**
+   * Number of entries left in the cache
+   */
+  entries: number;
+
+  /**
+   * Total size of the entries left in the cache in bytes
+   */
+  bytes: number;
+}
+
+interface Candidate {
+  dir: string;
+  namespace: string;
+  record: ManifestRecord;
+}
+
+/**
+ * Collects the entries of a cache directory and its namespaces
+ */
+function collectCandidates(
+  cacheDir: string,
+  listRecords: (dir: string) => ManifestRecord[]
+): Candidate[] {
+  return ["", ...listNamespaces(cacheDir)].flatMap((namespace) => {
+    const dir = namespace === "" ? cacheDir : join(cacheDir, namespace);
+    return listRecords(dir).map((record) => ({ dir, namespace, record }));
+  });
+}
+
+/**
+ * Checks an entry count and total size against the limits
+ */
+function isOverLimit({ maxEntries = Infinity, maxBytes = Infinity }: CacheLimits, entries: number, bytes: number) {
+  return entries > maxEntries || bytes > maxBytes;
+}
+
+/**
+ * Sums the file sizes of the given entries
+ */
+function totalBytes(candidates: Candidate[]): number {
+  return candidates.reduce((total, { record }) => total + record.size, 0);
+}
+
+/**
+ * Evicts entries until the cache directory is within its limits
+ */
+function evict(candidates: Candidate[], limits: CacheLimits, logger: CacheLogger): PruneResult {
+  const { evictionPolicy = "lru" } = limits;
+  const result: PruneResult = {
+    removed: [],
+    freedBytes: 0,
+    entries: candidates.length,
+    bytes: totalBytes(candidates),
+  };
+
+  if (!isOverLimit(limits, result.entries, result.bytes)) {
+    return result;
+  }
+
+  const rank = (record: ManifestRecord) =>
+    evictionPolicy === "oldest" ? record.createdAt : record.accessedAt;
+  candidates.sort((a, b) => rank(a.record) - rank(b.record) || a.record.createdAt - b.record.createdAt);
+
+  for (const { dir, namespace, record } of candidates) {
+    if (!isOverLimit(limits, result.entries, result.bytes)) {
+      break;
+    }
+    // Files deleted by someone else in the meantime still count towards what is left
+    if (deleteFromCache(record.key, dir)) {
+      result.removed.push(namespace === "" ? record.key : `${namespace}/${record.key}`);
+      result.freedBytes += record.size;
+    }
+    result.entries--;
+    result.bytes -= record.size;
+  }
+
+  logger.log(
+    `[Cache] Evicted ${result.removed.length} entries (${result.freedBytes} bytes, ${evictionPolicy})`
+  );
+  return result;
+}
+
+/**
+ * Evicts entries after a write
+ *
+ * The manifests as known to this process are checked first, so writes into a
+ * cache within its limits don't stat every entry file.
+ *
+ * @param cacheDir - The cache directory path
+ * @param limits - The limits to enforce
+ * @param logger - Where to log evictions
+ * @returns The evicted entries and what is left
+ */
+export function enforceCacheLimits(
+  cacheDir: string,
+  limits: CacheLimits,
+  logger: CacheLogger
+): PruneResult {
+  const known = collectCandidates(cacheDir, getManifestRecords);
+  if (!isOverLimit(limits, known.length, totalBytes(known))) {
+    return { removed: [], freedBytes: 0, entries: known.length, bytes: totalBytes(known) };
+  }
+
+  // Only rescan the disk once the cache looks full, so files deleted by hand aren't counted
+  return evict(collectCandidates(cacheDir, (dir) => listDirectoryEntries({}, dir)), limits, logger);
+}
+
+/**
+ * Evicts entries from a cache directory and its namespaces until it is within the given limits
+ *
+ * The manifests are reconciled with the files on disk first, so entries written
+ * by other processes are taken into account.
+ *
+ * @param options - The limits, eviction policy and cache directory
+ * @returns The evicted entries and what is left
+ *
+ * @example
+ * ```typescript
+ * import { pruneCache } from 'storyblok-cached-api';
+ *
+ * const { removed, freedBytes } = pruneCache({ maxEntries: 5000, maxBytes: 200 * 1024 * 1024 });
+ * console.log(`Removed ${removed.length} entries, freed ${freedBytes} bytes`);
+ * ```
+ */
+export function pruneCache(options: PruneCacheOptions = {}): PruneResult {
+  const { cacheDir = CACHE_DIR, verbose = true } = options;
+  return evict(
+    collectCandidates(cacheDir, (dir) => listDirectoryEntries({}, dir)),
+    options,
+    resolveLogger(verbose, options.logger)
+  );
+}
@@ -0,0 +1,65 @@
+import { CACHE_DIR } from "./cache.js";
+import { FileSystemStore } from "./stores.js";
+import type { CacheStore } from "./stores.js";
+
+// Keys read in replay mode, per cache directory or store
+const usedFixtures = new Map<string | object, Set<string>>();
+
+/**
+ * Identifies the fixtures to report on
+ */
+export interface FixtureOptions {
+  /**
+   * Directory the fixtures were recorded to
+   * @default '.sb-dev-cache'
+   */
+  cacheDir?: string;
+
+  /**
+   * Store the fixtures were recorded to, instead of `cacheDir`
+   */
+  store?: CacheStore;
+}
+
+/**
+ * Records that a fixture was served in replay mode
+ *
+ * @param owner - The cache directory path or store instance
+ * @param cacheKey - The key of the fixture
+ */
+export function markFixtureUsed(owner: string | object, cacheKey: string): void {
+  let used = usedFixtures.get(owner);
+  if (!used) {
+    used = new Set();
+    usedFixtures.set(owner, used);
+  }
+  used.add(cacheKey);
+}
+
+/**
+ * Lists the fixtures that were never served in replay mode during this process
+ *
+ * @param options - The directory or store the fixtures live in
+ * @returns The keys of unused fixtures, sorted alphabetically
+ *
+ * @example
+ * ```typescript
+ * afterAll(async () => {
+ *   expect(await getUnusedFixtures({ cacheDir: 'tests/fixtures/storyblok' })).toEqual([]);
+ * });
+ * ```
+ */
+export async function getUnusedFixtures(options: FixtureOptions = {}): Promise<string[]> {
+  const { cacheDir = CACHE_DIR, store } = options;
+  const used = usedFixtures.get(store ?? cacheDir) ?? new Set<string>();
+  const keys = await (store ?? new FileSystemStore(cacheDir, false)).list();
+
+  return keys.filter((key) => !used.has(key));
+}
+
+/**
+ * Forgets which fixtures have been served, e.g. between test files
+ */
+export function resetFixtureUsage(): void {
+  usedFixtures.clear();
+}
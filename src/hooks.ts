@@ -0,0 +1,126 @@
+import type { ISbStoryParams } from "storyblok-js-client";
+import type { StoryTarget } from "./reverse-index.js";
+
+/**
+ * Identifies the request a cache event belongs to
+ */
+export interface CacheRequestEvent {
+  /**
+   * The Storyblok path that was requested
+   */
+  slug: string;
+
+  /**
+   * The request parameters, without the access token
+   */
+  params?: ISbStoryParams;
+
+  /**
+   * The cache key of the request
+   */
+  cacheKey: string;
+
+  /**
+   * The namespace inside `cacheDir` the entry lives in (e.g. `staging/draft`), if any
+   */
+  namespace?: string;
+}
+
+/**
+ * A request answered from the cache
+ */
+export interface CacheHitEvent extends CacheRequestEvent {
+  /**
+   * Where the entry was found
+   */
+  tier: "memory" | "store";
+
+  /**
+   * True if the entry was expired and served anyway, with `staleWhileRevalidate`
+   * or `staleIfError`
+   */
+  stale: boolean;
+}
+
+/**
+ * A request that could not be answered from the cache
+ */
+export interface CacheMissEvent extends CacheRequestEvent {
+  /**
+   * Why the cache could not answer: no entry, an entry past its TTL, or an entry
+   * written under an older space cache version
+   */
+  reason: "missing" | "expired" | "outdated";
+}
+
+/**
+ * A response fetched from the API and written to the cache
+ */
+export interface CacheWriteEvent extends CacheRequestEvent {
+  /**
+   * Size of the serialized entry in bytes
+   */
+  bytes: number;
+
+  /**
+   * Time the API took to respond in milliseconds, including retries
+   */
+  latency: number;
+}
+
+/**
+ * A failed API request
+ */
+export interface CacheErrorEvent extends CacheRequestEvent {
+  /**
+   * The error the Storyblok client rejected with
+   */
+  error: unknown;
+}
+
+/**
+ * Entries deleted by invalidateEntries, invalidateStory or a webhook
+ */
+export interface CacheInvalidateEvent {
+  /**
+   * The story the entries were invalidated for
+   */
+  target: StoryTarget;
+
+  /**
+   * The deleted cache keys
+   */
+  keys: string[];
+}
+
+/**
+ * Callbacks for cache lifecycle events, e.g. to report cache effectiveness to telemetry
+ *
+ * Hooks are called synchronously; errors they throw are logged and otherwise ignored.
+ */
+export interface CacheHooks {
+  /**
+   * Called when a request is answered from the cache
+   */
+  onHit?: (event: CacheHitEvent) => void;
+
+  /**
+   * Called when a request has to query the API
+   */
+  onMiss?: (event: CacheMissEvent) => void;
+
+  /**
+   * Called after a response has been written to the cache
+   */
+  onWrite?: (event: CacheWriteEvent) => void;
+
+  /**
+   * Called when an API request fails
+   */
+  onError?: (event: CacheErrorEvent) => void;
+
+  /**
+   * Called when entries of this cache are invalidated, until the wrapper is garbage collected
+   */
+  onInvalidate?: (event: CacheInvalidateEvent) => void;
+}
@@ -1,212 +1,914 @@
-import { useStoryblokApi } from "@storyblok/astro";
-import type { ISbStoryParams } from "@storyblok/astro";
-import { createHash } from "node:crypto";
-import { existsSync, mkdirSync, readFileSync, writeFileSync, readdirSync, unlinkSync } from "node:fs";
 import { join } from "node:path";
+import type {
+  ISbCustomFetch,
+  ISbResult,
+  ISbStoriesParams,
+  ISbStoryParams,
+  Storyblok as StoryblokClient,
+} from "storyblok-js-client";
+import {
+  CACHE_DIR,
+  generateCacheKey,
+  isCacheEntry,
+  isExpired,
+  listNamespaces,
+  resolveTtl,
+} from "./cache.js";
+import type { CacheEntry, CacheKeyOptions, TtlRule } from "./cache.js";
+import type {
+  CacheErrorEvent,
+  CacheHitEvent,
+  CacheHooks,
+  CacheMissEvent,
+  CacheWriteEvent,
+} from "./hooks.js";
+import { addInvalidationHook } from "./invalidation.js";
+import { recordManifestRead } from "./manifest.js";
+import { resolveLogger } from "./logger.js";
+import type { CacheLogger } from "./logger.js";
+import { getMemoryTier } from "./memory-cache.js";
+import type { MemoryCache } from "./memory-cache.js";
+import { resolveNamespace, tokenFingerprint } from "./namespace.js";
+import { extractEntryRefs, reverseIndexes } from "./reverse-index.js";
+import type { MemoryCacheOptions } from "./memory-cache.js";
+import { createClientProxy, isCachedClient } from "./client.js";
+import { enforceCacheLimits } from "./eviction.js";
+import type { CacheLimits } from "./eviction.js";
+import type { CachedStoryblokClient } from "./client.js";
+import { AlreadyCachedError, CacheMissError } from "./errors.js";
+import { importSnapshot } from "./snapshot.js";
+import { markFixtureUsed } from "./fixtures.js";
+import { splitCacheDirective } from "./directive.js";
+import type { CacheDirectiveParams } from "./directive.js";
+import { redactParams } from "./params.js";
+import { deserializeResponse, serializeResponse } from "./response.js";
+import type { SerializedResponse } from "./response.js";
+import { FileSystemStore } from "./stores.js";
+import type { CacheStore } from "./stores.js";
+import { getErrorStatus, isRetryableError, withRetry } from "./retry.js";
+import type { RetryOptions } from "./retry.js";
 
-const CACHE_DIR = ".sb-dev-cache";
+export {
+  generateCacheKey,
+  isCacheEntry,
+  resolveTtl,
+  isExpired,
+  readFromCache,
+  writeToCache,
+  deleteFromCache,
+  listCacheKeys,
+  listNamespaces,
+  clearCache,
+} from "./cache.js";
+export type { CacheEntry, CachedError, CacheKeyOptions, ReadCacheOptions, TtlRule } from "./cache.js";
+export { AlreadyCachedError, CacheLockError, CacheMissError, SnapshotError } from "./errors.js";
+export { exportSnapshot, importSnapshot, SNAPSHOT_FORMAT, SNAPSHOT_VERSION } from "./snapshot.js";
+export type { Snapshot, SnapshotFile, SnapshotOptions, SnapshotSummary } from "./snapshot.js";
+export { isCachedClient } from "./client.js";
+export { pruneCache } from "./eviction.js";
+export type { CacheLimits, EvictionPolicy, PruneCacheOptions, PruneResult } from "./eviction.js";
+export type { CachedStoryblokClient } from "./client.js";
+export { QUARANTINE_DIR } from "./safe-fs.js";
+export { diffCache, diffValues, formatCacheDiff } from "./diff.js";
+export type { CacheDiffResult, DiffCacheOptions, EntryDiff, FieldChange, StoryDiff } from "./diff.js";
+export { DIRECTIVE_PARAM, splitCacheDirective } from "./directive.js";
+export type { CacheControl, CacheDirective, CacheDirectiveParams, CacheRequestMode } from "./directive.js";
+export { deserializeResponse, serializeResponse } from "./response.js";
+export type { SerializedResponse } from "./response.js";
+export type {
+  CacheErrorEvent,
+  CacheHitEvent,
+  CacheHooks,
+  CacheInvalidateEvent,
+  CacheMissEvent,
+  CacheRequestEvent,
+  CacheWriteEvent,
+} from "./hooks.js";
+export type { CacheLogger } from "./logger.js";
+export { getUnusedFixtures, resetFixtureUsage } from "./fixtures.js";
+export type { FixtureOptions } from "./fixtures.js";
+export { warmCache } from "./warm.js";
+export { invalidateEntries, invalidateStory } from "./invalidation.js";
+export type { InvalidationOptions } from "./invalidation.js";
+export { extractEntryRefs, extractStoryRefs } from "./reverse-index.js";
+export { tokenFingerprint } from "./namespace.js";
+export type { StoryRefs, StoryTarget } from "./reverse-index.js";
+export {
+  createWebhookHandler,
+  handleWebhook,
+  verifyWebhookSignature,
+} from "./webhook.js";
+export type { StoryblokWebhookPayload, WebhookOptions } from "./webhook.js";
+export type { WarmCacheOptions, WarmCacheProgress, WarmCacheResult } from "./warm.js";
+export { flushManifest, listCacheEntries, repairManifest, MANIFEST_FILE } from "./manifest.js";
+export type { CacheEntryFilter, ManifestRecord, ManifestRepair } from "./manifest.js";
+export { MemoryCache } from "./memory-cache.js";
+export type { MemoryCacheOptions } from "./memory-cache.js";
+export { FileSystemStore, MemoryStore } from "./stores.js";
+export type { CacheStore } from "./stores.js";
+export { getRetryAfter, isRetryableError, withRetry } from "./retry.js";
+export type { RetryOptions } from "./retry.js";
+
+// Space cache version checks, shared by every wrapper around the same client
+const cvChecks = new WeakMap<object, CvCheck>();
+
+// Upstream requests in progress, keyed by cache key, shared by every wrapper caching
+// into the same directory or store, so concurrent pages share one request
+const inFlightRequests = new Map<string | object, Map<string, Promise<ISbResult>>>();
+
+// The snapshot file last imported into each cache directory in snapshot mode, with the spaces in it
+const importedSnapshots = new Map<string, { file: string; spaces: string[] }>();
+
+const stats: CacheStats = {
+  memory: { hits: 0, misses: 0 },
+  store: { hits: 0, misses: 0 },
+  bytesRead: 0,
+  bytesWritten: 0,
+  upstream: { requests: 0, errors: 0, totalLatency: 0, maxLatency: 0 },
+};
+
+/**
+ * How the wrapper combines the cache with the API
+ *
+ * - `read-through`: serve from cache, query the API on a miss and cache the response
+ * - `offline`: only serve from cache (expired entries included), throw CacheMissError on a miss
+ * - `refresh`: always query the API and overwrite the cached entry
+ * - `record`: like `refresh`, for capturing test fixtures into `cacheDir`
+ * - `replay`: like `offline`, additionally tracking which fixtures were served (see getUnusedFixtures)
+ * - `snapshot`: like `offline`, serving the entries of the `snapshot` file imported into `cacheDir`
+ *   under any access token
+ */
+export type CacheMode = "read-through" | "offline" | "refresh" | "record" | "replay" | "snapshot";
 
 /**
  * Configuration options for the cached Storyblok API
  */
-export interface CachedApiOptions {
+export interface CachedApiOptions extends CacheHooks, CacheLimits {
   /**
    * Enable or disable caching
-   * @default process.env.NODE_ENV === 'development'
+   * @default process.env.NODE_ENV === 'development', or true when `mode` is not 'read-through'
    */
   enableCache?: boolean;
 
   /**
-   * Directory path for cache storage
+   * How the cache and the API are combined
+   * @default 'read-through'
+   */
+  mode?: CacheMode;
+
+  /**
+   * Snapshot file to build from in 'snapshot' mode, written by exportSnapshot().
+   * It is imported into `cacheDir` once per process, replacing its contents.
+   */
+  snapshot?: string;
+
+  /**
+   * Directory path for cache storage, used by the default filesystem store
    * @default '.sb-dev-cache'
    */
   cacheDir?: string;
 
+  /**
+   * Name of the space the filesystem cache is partitioned by, instead of a
+   * fingerprint of the client's access token. `false` keeps every entry directly in `cacheDir`.
+   * @default a fingerprint of the access token
+   */
+  namespace?: string | false;
+
+  /**
+   * Storage backend for cache entries
+   * @default new FileSystemStore(cacheDir, logger)
+   */
+  store?: CacheStore;
+
   /**
    * Enable console logging for cache operations
    * @default true
    */
   verbose?: boolean;
+
+  /**
+   * Where log output goes when `verbose` is enabled, e.g. a pino or winston logger
+   * @default console
+   */
+  logger?: CacheLogger;
+
+  /**
+   * Time in milliseconds after which a cached entry is considered expired.
+   * Leave undefined to keep entries forever.
+   * @default undefined
+   */
+  ttl?: number;
+
+  /**
+   * Per-slug TTL overrides. The first rule whose pattern matches the slug wins,
+   * falling back to `ttl` when none match.
+   * @default []
+   */
+  ttlRules?: TtlRule[];
+
+  /**
+   * Serve expired entries immediately and refresh them from the API in the background
+   * @default false
+   */
+  staleWhileRevalidate?: boolean;
+
+  /**
+   * Keep recently used entries in memory in front of the cache store.
+   * Pass an object to configure its limits.
+   * @default false
+   */
+  memoryCache?: boolean | MemoryCacheOptions;
+
+  /**
+   * Check the space cache version (cv) via cdn/spaces/me and treat entries written
+   * under an older cv as expired. `true` checks once per process, a number re-checks
+   * after that many milliseconds. A response carrying a newer cv raises the known one.
+   * @default false
+   */
+  validateCv?: boolean | number;
+
+  /**
+   * Retry requests that fail with a rate limit (429), a server error (5xx) or a network
+   * error, backing off exponentially and honouring Retry-After. Pass an object to
+   * configure the limits.
+   * @default false
+   */
+  retry?: boolean | RetryOptions;
+
+  /**
+   * Serve an existing entry, even an expired or outdated one, when the API is rate
+   * limited, returns a server error or cannot be reached
+   * @default false
+   */
+  staleIfError?: boolean;
+
+  /**
+   * Cache failed requests with certain statuses (404 by default) for a short time, so
+   * missing slugs fail again without querying the API. Pass an object to configure them.
+   * @default false
+   */
+  negativeCache?: boolean | NegativeCacheOptions;
+
+  /**
+   * Which request parameters identify a cache entry: parameters to ignore or to
+   * allow, or a custom key function. The access token is never part of the key.
+   * @default { ignoreParams: ['cv'] }
+   */
+  cacheKey?: CacheKeyOptions;
 }
 
 /**
- * Generates a unique cache key based on the path and request parameters
- * 
- * @param path - The Storyblok story path
- * @param params - Optional story parameters
- * @returns A sanitized cache key string
+ * Configuration options for caching failed requests
  */
-export function generateCacheKey(path: string, params?: ISbStoryParams): string {
-  // Normalize path by removing leading slash
-  const normalizedPath = path.replace(/^\//, "");
-  
-  const paramsStr = params ? JSON.stringify(params, Object.keys(params).sort()) : "";
-  const combined = `${normalizedPath}::${paramsStr}`;
-  const hash = createHash("sha256").update(combined).digest("hex").substring(0, 16);
-
-  // Sanitize the path to use as part of the filename
-  const sanitizedPath = normalizedPath
-    .replace(/\//g, "_")
-    .replace(/[^a-zA-Z0-9_-]/g, "-");
-
-  return `${sanitizedPath}__${hash}.json`;
+export interface NegativeCacheOptions {
+  /**
+   * Time in milliseconds after which a cached failure is retried against the API
+   * @default 60000
+   */
+  ttl?: number;
+
+  /**
+   * The HTTP statuses to cache
+   * @default [404]
+   */
+  statuses?: number[];
 }
 
 /**
- * Reads data from the disk cache
- * 
- * @param cacheKey - The cache key to read
- * @param cacheDir - The cache directory path
- * @param verbose - Enable verbose logging
- * @returns The cached data or null if not found
+ * The latest known space cache version for a client
  */
-export function readFromCache<T = unknown>(
-  cacheKey: string,
-  cacheDir: string = CACHE_DIR,
-  verbose: boolean = true
-): T | null {
-  const cachePath = join(process.cwd(), cacheDir, cacheKey);
-
-  if (!existsSync(cachePath)) {
-    return null;
-  }
+interface CvCheck {
+  cv?: number;
+  checkedAt: number;
+  pending?: Promise<number | undefined>;
+}
 
-  try {
-    const content = readFileSync(cachePath, "utf-8");
-    return JSON.parse(content) as T;
-  } catch (error) {
-    if (verbose) {
-      console.warn(`[Cache] Error reading cache for ${cacheKey}:`, error);
-    }
-    return null;
-  }
+/**
+ * Hit and miss counts for a single cache tier
+ */
+export interface TierStats {
+  hits: number;
+  misses: number;
 }
 
 /**
- * Writes data to the disk cache
- * 
- * @param cacheKey - The cache key to write
- * @param data - The data to cache
- * @param cacheDir - The cache directory path
- * @param verbose - Enable verbose logging
+ * Request counts and latencies of the Storyblok API, in milliseconds
  */
-export function writeToCache<T = unknown>(
-  cacheKey: string,
-  data: T,
-  cacheDir: string = CACHE_DIR,
-  verbose: boolean = true
-): void {
-  const cacheDirPath = join(process.cwd(), cacheDir);
-
-  // Create directory if it doesn't exist
-  if (!existsSync(cacheDirPath)) {
-    mkdirSync(cacheDirPath, { recursive: true });
-  }
+export interface UpstreamStats {
+  requests: number;
+  errors: number;
+  totalLatency: number;
+  maxLatency: number;
+}
 
-  const cachePath = join(cacheDirPath, cacheKey);
+/**
+ * Cache statistics since the process started or stats were reset
+ */
+export interface CacheStats {
+  memory: TierStats;
+  store: TierStats;
 
-  try {
-    writeFileSync(cachePath, JSON.stringify(data, null, 2), "utf-8");
-    if (verbose) {
-      console.log(`[Cache] ✓ Saved to cache: ${cacheKey}`);
-    }
-  } catch (error) {
-    if (verbose) {
-      console.warn(`[Cache] Error writing cache for ${cacheKey}:`, error);
-    }
-  }
+  /**
+   * Serialized size of the entries read from the store
+   */
+  bytesRead: number;
+
+  /**
+   * Serialized size of the entries written to the store
+   */
+  bytesWritten: number;
+
+  upstream: UpstreamStats;
 }
 
 /**
- * Clears all cache files from the cache directory
+ * Returns hit and miss counts for the memory tier and the cache store,
+ * bytes read and written, and API request latencies
  * 
- * @param cacheDir - The cache directory path
- * @returns Number of files deleted
+ * @returns A snapshot of the cache statistics
  */
-export function clearCache(cacheDir: string = CACHE_DIR): number {
-  const cacheDirPath = join(process.cwd(), cacheDir);
-  
-  if (!existsSync(cacheDirPath)) {
-    return 0;
-  }
-
-  const files = readdirSync(cacheDirPath);
-  
-  files.forEach((file: string) => {
-    if (file.endsWith(".json")) {
-      unlinkSync(join(cacheDirPath, file));
-    }
-  });
+export function getCacheStats(): CacheStats {
+  return {
+    memory: { ...stats.memory },
+    store: { ...stats.store },
+    bytesRead: stats.bytesRead,
+    bytesWritten: stats.bytesWritten,
+    upstream: { ...stats.upstream },
+  };
+}
 
-  return files.length;
+/**
+ * Resets all statistics to zero
+ */
+export function resetCacheStats(): void {
+  stats.memory = { hits: 0, misses: 0 };
+  stats.store = { hits: 0, misses: 0 };
+  stats.bytesRead = 0;
+  stats.bytesWritten = 0;
+  stats.upstream = { requests: 0, errors: 0, totalLatency: 0, maxLatency: 0 };
 }
 
 /**
- * Storyblok API wrapper with disk caching for development
+ * Wraps a Storyblok client with disk caching for development
  * 
+ * Works with any storyblok-js-client instance, e.g. in Node scripts or Next.js;
+ * Astro projects can use useCachedStoryblokApi from `storyblok-cached-api/astro`.
  * In development mode, API responses are cached to the .sb-dev-cache/ folder.
  * If the cache exists, it loads from disk. Otherwise, it queries the API and saves the response.
+ * Entries are stored with their write time, so a `ttl` can expire them across restarts.
+ * Concurrent calls for the same slug and params share a single API request, across
+ * every wrapper caching into the same directory or store.
+ * With `memoryCache` enabled, recently used entries are also kept in memory in front of the disk.
+ * Pass a `store` to keep entries somewhere other than the filesystem.
+ * Set `mode` to 'offline' to never touch the network, or 'refresh' to always refetch.
+ * With `validateCv`, entries written under an older space cache version are refetched.
+ * With `retry` and `staleIfError`, failing requests are retried and then answered from cache.
+ * The client is not modified: the result is a separate cached view of it,
+ * and `uncached` gives access to the original.
  * To clear the cache, simply delete the .sb-dev-cache/ folder or use clearCache().
  * 
+ * @param client - The Storyblok client to cache
  * @param options - Configuration options for caching behavior
  * @returns The Storyblok API instance with caching enabled
+ * @throws AlreadyCachedError if the client is already cached
  * 
  * @example
  * ```typescript
- * import { useCachedStoryblokApi } from 'storyblok-cached-api';
+ * import StoryblokClient from 'storyblok-js-client';
+ * import { createCachedClient } from 'storyblok-cached-api';
  * 
- * const storyblokApi = useCachedStoryblokApi();
+ * const client = new StoryblokClient({ accessToken: process.env.STORYBLOK_TOKEN });
+ * const storyblokApi = createCachedClient(client);
  * const { data } = await storyblokApi.get('cdn/stories/home');
  * ```
  * 
  * @example
  * ```typescript
  * // With custom options
- * const storyblokApi = useCachedStoryblokApi({
+ * const storyblokApi = createCachedClient(client, {
  *   enableCache: true,
  *   cacheDir: 'my-cache',
  *   verbose: false
  * });
  * ```
+ * 
+ * @example
+ * ```typescript
+ * // Expire entries after a minute, blog posts after ten, and refresh in the background
+ * const storyblokApi = createCachedClient(client, {
+ *   ttl: 60_000,
+ *   ttlRules: [{ pattern: 'cdn/stories/blog/*', ttl: 600_000 }],
+ *   staleWhileRevalidate: true
+ * });
+ * ```
+ * 
+ * @example
+ * ```typescript
+ * // Keep entries in memory instead of on disk
+ * import { createCachedClient, MemoryStore } from 'storyblok-cached-api';
+ * 
+ * const storyblokApi = createCachedClient(client, { store: new MemoryStore() });
+ * ```
+ * 
+ * @example
+ * ```typescript
+ * // Work without network access or credentials
+ * const storyblokApi = createCachedClient(client, { mode: 'offline' });
+ * ```
+ * 
+ * @example
+ * ```typescript
+ * // Ride out rate limits and outages, and stop re-requesting missing slugs
+ * const storyblokApi = createCachedClient(client, {
+ *   retry: { retries: 5 },
+ *   staleIfError: true,
+ *   negativeCache: { ttl: 30_000 }
+ * });
+ * ```
+ * 
+ * @example
+ * ```typescript
+ * // Replay committed fixtures in tests (record them once with mode: 'record')
+ * const storyblokApi = createCachedClient(client, {
+ *   mode: process.env.RECORD ? 'record' : 'replay',
+ *   cacheDir: 'tests/fixtures/storyblok'
+ * });
+ * ```
  */
-export function useCachedStoryblokApi(options?: CachedApiOptions) {
+export function createCachedClient(
+  client: StoryblokClient,
+  options?: CachedApiOptions
+): CachedStoryblokClient {
   const {
-    enableCache = process.env["NODE_ENV"] === "development",
+    mode = "read-through",
+    enableCache = process.env["NODE_ENV"] === "development" || mode !== "read-through",
     cacheDir = CACHE_DIR,
     verbose = true,
+    ttl,
+    ttlRules = [],
+    staleWhileRevalidate = false,
+    memoryCache = false,
+    validateCv = false,
+    retry = false,
+    staleIfError = false,
+    negativeCache = false,
   } = options ?? {};
 
-  const originalApi = useStoryblokApi();
-  const originalGet = originalApi.get.bind(originalApi);
+  const logger = resolveLogger(verbose, options?.logger);
+
+  if (isCachedClient(client)) {
+    throw new AlreadyCachedError();
+  }
+  const originalGet = client.get.bind(client);
+  const config = client as unknown as { accessToken?: unknown; version?: unknown };
 
-  // Override the get method with caching logic
-  originalApi.get = async (slug: string, params?: ISbStoryParams) => {
-    const cacheKey = generateCacheKey(slug, params);
+  // The space whose entries snapshot mode serves, whatever token the build runs with
+  let snapshotSpace: string | undefined;
+  if (mode === "snapshot") {
+    if (!options?.snapshot || options.store) {
+      throw new Error("Snapshot mode requires the snapshot option and the filesystem store");
+    }
+    // Every wrapper created during a build shares one import
+    let imported = importedSnapshots.get(cacheDir);
+    if (imported?.file !== options.snapshot) {
+      const { entries } = importSnapshot(options.snapshot, { cacheDir });
+      const spaces = [...new Set(listNamespaces(cacheDir).map((namespace) => namespace.split("/")[0] ?? ""))];
+      imported = { file: options.snapshot, spaces };
+      importedSnapshots.set(cacheDir, imported);
+      logger.log(`[Cache] Imported ${entries} entries from snapshot ${options.snapshot}`);
+    }
 
-    // Try to read from cache only if caching is enabled
-    if (enableCache) {
-      const cached = readFromCache(cacheKey, cacheDir, verbose);
-      if (cached) {
-        if (verbose) {
-          console.log(`[Cache] ✓ Loaded from cache: ${slug}`);
+    // A single space is served to any token; of several, the token's own or the namespace option is picked
+    const { spaces } = imported;
+    const fingerprint = typeof config.accessToken === "string" ? tokenFingerprint(config.accessToken) : undefined;
+    const ownSpace = fingerprint !== undefined && spaces.includes(fingerprint);
+    if (spaces.length > 1 && !ownSpace && options.namespace === undefined) {
+      throw new Error(
+        `Snapshot ${options.snapshot} holds several spaces (${spaces.join(", ")}); ` +
+        "pass the namespace option to pick one"
+      );
+    }
+    snapshotSpace = spaces.length > 1 ? fingerprint : spaces[0];
+  }
+
+  type ApiResponse = Awaited<ReturnType<typeof originalGet>>;
+
+  // Where the entries of one namespace live, with the state shared by everyone caching there
+  interface Partition {
+    store: CacheStore;
+    owner: string | object;
+    namespace?: string;
+    memoryTier?: MemoryCache;
+    // Upstream requests currently in progress, keyed by cache key, shared with other wrappers
+    inFlight: Map<string, Promise<ApiResponse>>;
+  }
+
+  const partitions = new Map<string, Partition>();
+
+  // Resolves the partition for a request. Filesystem entries are split into
+  // <cacheDir>/<space>/<version>/; custom stores and clients without a token stay flat.
+  const getPartition = (params?: ISbStoryParams): Partition => {
+    // Fixtures and snapshots have to be served under any token, so only an explicit
+    // namespace or the snapshot's own space applies to them
+    const anyToken = mode === "record" || mode === "replay" || mode === "snapshot";
+    const token = anyToken || typeof config.accessToken !== "string" ? undefined : config.accessToken;
+    const version = params?.version ?? (typeof config.version === "string" ? config.version : undefined);
+    const namespace = options?.store || options?.namespace === false
+      ? undefined
+      : resolveNamespace({ namespace: options?.namespace ?? snapshotSpace, token, version });
+    const dir = namespace === undefined ? cacheDir : join(cacheDir, namespace);
+
+    let partition = partitions.get(dir);
+    if (!partition) {
+      // Per-cache state is shared by directory for the filesystem, so clearCache() reaches it
+      const owner = options?.store ?? dir;
+      let inFlight = inFlightRequests.get(owner);
+      if (!inFlight) {
+        inFlight = new Map();
+        inFlightRequests.set(owner, inFlight);
+      }
+      partition = {
+        store: options?.store ?? new FileSystemStore(dir, logger),
+        owner,
+        namespace,
+        memoryTier: enableCache && memoryCache
+          ? getMemoryTier(owner, memoryCache === true ? {} : memoryCache)
+          : undefined,
+        inFlight,
+      };
+      partitions.set(dir, partition);
+
+      // Tied to cachedGet, which the proxy and a detached get or getAll all keep alive
+      if (options?.onInvalidate) {
+        addInvalidationHook(owner, cachedGet, options.onInvalidate);
+      }
+    }
+    return partition;
+  };
+
+  const retryOptions: RetryOptions = retry === false ? { retries: 0 } : retry === true ? {} : retry;
+  const negativeOptions: NegativeCacheOptions = negativeCache === true ? {} : negativeCache || {};
+  const negativeStatuses = negativeCache ? negativeOptions.statuses ?? [404] : [];
+  // Failures cached before negative caching was turned off are always expired
+  const negativeTtl = negativeCache ? negativeOptions.ttl ?? 60_000 : 0;
+
+  // Size limits cover the whole cache directory; custom stores manage their own size
+  const limited = !options?.store && (options?.maxEntries !== undefined || options?.maxBytes !== undefined);
+
+  // Evicts entries once a write has pushed the cache over a limit
+  const enforceLimits = () => {
+    if (!limited) {
+      return;
+    }
+    try {
+      enforceCacheLimits(cacheDir, options, logger);
+    } catch (error) {
+      logger.warn("[Cache] Error evicting entries:", error);
+    }
+  };
+
+  // Calls a hook without letting a failing one break the request
+  const emit = <E>(name: keyof CacheHooks, hook: ((event: E) => void) | undefined, event: E) => {
+    try {
+      hook?.(event);
+    } catch (error) {
+      logger.warn(`[Cache] Error in ${name} hook:`, error);
+    }
+  };
+
+  // Queries the API, retrying failures as configured, and records the latency
+  const requestWithRetry = async (slug: string, params?: ISbStoryParams, fetchOptions?: ISbCustomFetch) => {
+    const startedAt = Date.now();
+    const recordLatency = () => {
+      const latency = Date.now() - startedAt;
+      stats.upstream.requests++;
+      stats.upstream.totalLatency += latency;
+      stats.upstream.maxLatency = Math.max(stats.upstream.maxLatency, latency);
+      return latency;
+    };
+
+    try {
+      const result = await withRetry(
+        () => originalGet(slug, params, fetchOptions),
+        retryOptions,
+        (error, attempt, delay) => {
+          logger.warn(`[Cache] ↻ Retrying ${slug} in ${delay}ms (attempt ${attempt}):`, error);
         }
-        return cached as Awaited<ReturnType<typeof originalGet>>;
+      );
+      return { result, latency: recordLatency() };
+    } catch (error) {
+      recordLatency();
+      stats.upstream.errors++;
+      throw error;
+    }
+  };
+
+  // Checking once per process is an interval that never elapses
+  const cvCheckInterval = typeof validateCv === "number" ? validateCv : Infinity;
+
+  // Returns the current space cv, querying cdn/spaces/me when unknown or older than the interval
+  const getCurrentCv = async (): Promise<number | undefined> => {
+    let check = cvChecks.get(client);
+    if (!check) {
+      check = { checkedAt: 0 };
+      cvChecks.set(client, check);
+    }
+
+    if (check.checkedAt > 0 && Date.now() - check.checkedAt < cvCheckInterval) {
+      return check.cv;
+    }
+
+    if (!check.pending) {
+      const state = check;
+      state.pending = originalGet("cdn/spaces/me")
+        .then((response) => {
+          const cv = (response.data as { space?: { version?: number } } | undefined)?.space?.version;
+          state.cv = typeof cv === "number" ? cv : undefined;
+          logger.log(`[Cache] Space cache version: ${state.cv}`);
+          return state.cv;
+        })
+        .catch((error: unknown) => {
+          // Without a known cv, entries are served as if validation were off
+          logger.warn("[Cache] Error checking space cache version:", error);
+          return state.cv;
+        })
+        .finally(() => {
+          state.checkedAt = Date.now();
+          state.pending = undefined;
+        });
+    }
+
+    return check.pending;
+  };
+
+  // Fetches from the API and stores the response with the current timestamp.
+  // Concurrent calls for the same cache key share a single request and write.
+  const fetchAndCache = (
+    slug: string,
+    params: ISbStoryParams | undefined,
+    cacheKey: string,
+    { store, owner, namespace, memoryTier, inFlight }: Partition,
+    fetchOptions?: ISbCustomFetch,
+    tags?: string[]
+  ) => {
+    const pending = inFlight.get(cacheKey);
+    if (pending) {
+      logger.log(`[Cache] ⇄ Joining in-flight request: ${slug}`);
+      return pending;
+    }
+
+    logger.log(`[Cache] → Querying API: ${slug}`);
+
+    // Taken before the request, as the client adds parameters such as `cv` to the object it is given
+    const storedParams = redactParams(params);
+
+    const request = (async () => {
+      let result: ApiResponse;
+      let latency: number;
+      try {
+        ({ result, latency } = await requestWithRetry(slug, params, fetchOptions));
+      } catch (error) {
+        emit<CacheErrorEvent>("onError", options?.onError, {
+          slug,
+          params: storedParams,
+          cacheKey,
+          namespace,
+          error,
+        });
+
+        const status = getErrorStatus(error);
+        if (status !== undefined && negativeStatuses.includes(status)) {
+          const message = (error as { message?: unknown }).message;
+          const entry: CacheEntry<null> = {
+            timestamp: Date.now(),
+            slug,
+            params: storedParams,
+            data: null,
+            error: { status, ...(typeof message === "string" && { message }) },
+          };
+          await store.set(cacheKey, entry);
+          memoryTier?.set(cacheKey, entry);
+          stats.bytesWritten += JSON.stringify(entry).length;
+          enforceLimits();
+          logger.log(`[Cache] ✓ Saved ${status} response to cache: ${slug}`);
+        }
+        throw error;
       }
+
+      // Story responses carry the cv they were served under, which is the most precise
+      const responseCv = (result.data as { cv?: unknown } | undefined)?.cv;
+      // A newer cv in a response means content was published since the last check
+      const cvCheck = cvChecks.get(client);
+      if (typeof responseCv === "number" && cvCheck?.cv !== undefined && responseCv > cvCheck.cv) {
+        cvCheck.cv = responseCv;
+      }
+      const entry: CacheEntry<SerializedResponse> = {
+        timestamp: Date.now(),
+        slug,
+        params: storedParams,
+        cv: typeof responseCv === "number" ? responseCv : cvChecks.get(client)?.cv,
+        ...(tags?.length && { tags }),
+        data: serializeResponse(result),
+      };
+      const bytes = JSON.stringify(entry).length;
+      await store.set(cacheKey, entry);
+      memoryTier?.set(cacheKey, entry, bytes);
+      reverseIndexes.get(owner)?.add(cacheKey, extractEntryRefs(entry));
+      stats.bytesWritten += bytes;
+      enforceLimits();
+      emit<CacheWriteEvent>("onWrite", options?.onWrite, {
+        slug,
+        params: entry.params,
+        cacheKey,
+        namespace,
+        bytes,
+        latency,
+      });
+      return result;
+    })().finally(() => {
+      inFlight.delete(cacheKey);
+    });
+
+    inFlight.set(cacheKey, request);
+    return request;
+  };
+
+  // Refreshes an expired entry without blocking the caller
+  const revalidate = (
+    slug: string,
+    params: ISbStoryParams | undefined,
+    cacheKey: string,
+    partition: Partition,
+    tags?: string[]
+  ) => {
+    if (partition.inFlight.has(cacheKey)) {
+      return;
     }
 
-    // If no cache, query the original API
-    if (verbose) {
-      console.log(`[Cache] → Querying API: ${slug}`);
+    logger.log(`[Cache] ↻ Revalidating in background: ${slug}`);
+    void fetchAndCache(slug, params, cacheKey, partition, undefined, tags).catch((error: unknown) => {
+      logger.warn(`[Cache] Error revalidating ${slug}:`, error);
+    });
+  };
+
+  // Files written before entries were timestamped are treated as infinitely old
+  const toEntry = (cached: unknown): CacheEntry<SerializedResponse> =>
+    isCacheEntry<SerializedResponse>(cached)
+      ? cached
+      : { timestamp: 0, data: cached as SerializedResponse };
+
+  // Cached failures are rejected the way the Storyblok client rejects them
+  const serve = (entry: CacheEntry<SerializedResponse>): ApiResponse => {
+    if (entry.error) {
+      throw { ...entry.error };
+    }
+    return deserializeResponse<ApiResponse>(entry.data);
+  };
+
+  // Looks up the memory tier first, then the store, promoting store hits into memory
+  const readFromTiers = async (
+    cacheKey: string,
+    { store, owner, memoryTier }: Partition
+  ): Promise<{ entry: CacheEntry<SerializedResponse>; tier: CacheHitEvent["tier"] } | null> => {
+    if (memoryTier) {
+      const remembered = memoryTier.get(cacheKey);
+      if (remembered !== undefined) {
+        stats.memory.hits++;
+        // Memory hits never reach the disk, so LRU eviction has to learn of them from here
+        if (typeof owner === "string") {
+          recordManifestRead(owner, cacheKey);
+        }
+        return { entry: toEntry(remembered), tier: "memory" };
+      }
+      stats.memory.misses++;
+    }
+
+    const cached = await store.get(cacheKey);
+    if (cached === null) {
+      stats.store.misses++;
+      return null;
+    }
+
+    const bytes = JSON.stringify(cached).length;
+    stats.store.hits++;
+    stats.bytesRead += bytes;
+    memoryTier?.set(cacheKey, cached, bytes);
+    return { entry: toEntry(cached), tier: "store" };
+  };
+
+  // The get method with caching logic
+  const cachedGet = async (
+    slug: string,
+    requestParams?: CacheDirectiveParams,
+    fetchOptions?: ISbCustomFetch
+  ) => {
+    // The directive only steers the cache, so neither the key nor the API sees it
+    const { params, control } = splitCacheDirective(requestParams);
+
+    // Without caching, or when the call opts out, every call goes straight to the original API
+    if (!enableCache || control.mode === "bypass") {
+      logger.log(`[Cache] → Querying API: ${slug}`);
+      return (await requestWithRetry(slug, params, fetchOptions)).result;
+    }
+
+    const cacheKey = generateCacheKey(slug, params, options?.cacheKey);
+    const partition = getPartition(params);
+
+    if (mode === "refresh" || mode === "record" || control.mode === "refresh") {
+      return fetchAndCache(slug, params, cacheKey, partition, fetchOptions, control.tags);
+    }
+
+    const found = await readFromTiers(cacheKey, partition);
+    const entry = found?.entry;
+    const event = { slug, params: redactParams(params), cacheKey, namespace: partition.namespace };
+    const hit = (stale: boolean) => {
+      if (found) {
+        emit<CacheHitEvent>("onHit", options?.onHit, { ...event, tier: found.tier, stale });
+      }
+    };
+    const miss = (reason: CacheMissEvent["reason"]) =>
+      emit<CacheMissEvent>("onMiss", options?.onMiss, { ...event, reason });
+
+    // Offline, replay and snapshot modes never touch the network, so any entry is better than none
+    if (mode === "offline" || mode === "replay" || mode === "snapshot" || control.mode === "only-if-cached") {
+      if (!entry) {
+        miss("missing");
+        throw new CacheMissError(slug, params, cacheKey);
+      }
+      if (mode === "replay") {
+        markFixtureUsed(partition.owner, cacheKey);
+      }
+      logger.log(`[Cache] ✓ Loaded from cache (${control.mode ?? mode}): ${slug}`);
+      hit(false);
+      return serve(entry);
     }
-    const result = await originalGet(slug, params);
 
-    // Save to cache only if caching is enabled
-    if (enableCache) {
-      writeToCache(cacheKey, result, cacheDir, verbose);
+    if (entry) {
+      const currentCv = validateCv === false ? undefined : await getCurrentCv();
+      const outdated = currentCv !== undefined && (entry.cv === undefined || entry.cv < currentCv);
+      const entryTtl = entry.error ? negativeTtl : control.ttl ?? resolveTtl(slug, ttl, ttlRules);
+      const expired = outdated || isExpired(entry, entryTtl);
+
+      if (!expired) {
+        logger.log(`[Cache] ✓ Loaded from cache: ${slug}`);
+        hit(false);
+        return serve(entry);
+      }
+
+      if (staleWhileRevalidate) {
+        logger.log(`[Cache] ✓ Loaded stale entry from cache: ${slug}`);
+        hit(true);
+        revalidate(slug, params, cacheKey, partition, control.tags);
+        return serve(entry);
+      }
+
+      logger.log(`[Cache] ✗ Cache entry ${outdated ? "outdated" : "expired"}: ${slug}`);
+      miss(outdated ? "outdated" : "expired");
+    } else {
+      miss("missing");
+    }
+
+    // If no cache, query the original API
+    try {
+      return await fetchAndCache(slug, params, cacheKey, partition, fetchOptions, control.tags);
+    } catch (error) {
+      // A missing story is not an outage, so only transient failures fall back
+      if (!staleIfError || !entry || entry.error || !isRetryableError(error)) {
+        throw error;
+      }
+      logger.warn(`[Cache] ⚠ API request failed, serving stale entry: ${slug}`, error);
+      hit(true);
+      return serve(entry);
     }
+  };
+
+  // Fetches every page of a paginated endpoint through the cache, like the client's getAll
+  const cachedGetAll = async (
+    slug: string,
+    params: ISbStoriesParams = {},
+    entity?: string,
+    fetchOptions?: ISbCustomFetch
+  ) => {
+    const perPage = params.per_page || 25;
+    const path = slug.replace(/\/$/, "");
+    const key = entity ?? path.substring(path.lastIndexOf("/") + 1);
+    const getPage = (page: number) => {
+      const pageParams: ISbStoriesParams = { ...params, per_page: perPage, page };
+      return cachedGet(path, pageParams, fetchOptions);
+    };
+
+    // The page count comes from the total and per-page headers of the first page
+    const first = await getPage(1);
+    const lastPage = first.total ? Math.ceil(first.total / (first.perPage || perPage)) : 1;
+    const rest = await Promise.all(
+      Array.from({ length: lastPage - 1 }, (_, index) => getPage(index + 2))
+    );
 
-    return result;
+    return [first, ...rest].flatMap((response) =>
+      Object.values((response.data as Record<string, object>)[key] ?? {})
+    );
   };
 
-  return originalApi;
+  return createClientProxy(client, { get: cachedGet, getAll: cachedGetAll });
 }
@@ -0,0 +1,158 @@
+import { basename, isAbsolute, relative, resolve, sep } from "node:path";
+import type { AstroIntegration } from "astro";
+import { clearDevCaches, getPageEntries, refreshPageEntries, registerDevServer } from "./dev-tools.js";
+import { QUARANTINE_DIR } from "./safe-fs.js";
+import { TOOLBAR_APP_ID, TOOLBAR_EVENTS } from "./toolbar-events.js";
+import type { PageEntries, PageRequest, RefreshRequest } from "./toolbar-events.js";
+
+// Changes arriving together, e.g. a cleared directory, reload the browser once
+const RELOAD_DELAY = 100;
+
+// How long after writing an entry its own change events are ignored
+const OWN_WRITE_WINDOW = 1000;
+
+/**
+ * Configuration options for the Astro integration
+ */
+export interface CacheIntegrationOptions {
+  /**
+   * Add a dev toolbar app listing the cached requests of the current page
+   * @default true
+   */
+  toolbar?: boolean;
+
+  /**
+   * Reload the browser when entries change on disk or are invalidated.
+   * Refreshing from the toolbar app always reloads.
+   * @default true
+   */
+  reload?: boolean;
+}
+
+/**
+ * Checks whether a changed file is a cache entry inside one of the watched directories
+ */
+function isEntryFile(file: string, cacheDirs: Set<string>): boolean {
+  const name = basename(file);
+  if (!name.endsWith(".json") || name.startsWith(".")) {
+    return false;
+  }
+  return [...cacheDirs].some((dir) => {
+    const path = relative(dir, file);
+    return !path.startsWith("..") && !isAbsolute(path) && !path.split(sep).includes(QUARANTINE_DIR);
+  });
+}
+
+/**
+ * Astro integration for working with the cache in `astro dev`
+ *
+ * Pages are tracked with the cache entries they use, a dev toolbar app lists
+ * them with buttons to refetch them or clear the cache, and the browser reloads
+ * when entries change on disk (e.g. through the CLI, another process or the
+ * webhook handler) or are invalidated. Writes made while rendering don't reload.
+ * Only wrappers created with useCachedStoryblokApi() report to the dev server.
+ *
+ * @param options - Which dev features to enable
+ * @returns The Astro integration
+ *
+ * @example
+ * ```typescript
+ * // astro.config.mjs
+ * import { defineConfig } from 'astro/config';
+ * import { storyblokCache } from 'storyblok-cached-api/astro';
+ *
+ * export default defineConfig({
+ *   integrations: [storyblok({ accessToken: '...' }), storyblokCache()],
+ * });
+ * ```
+ */
+export function storyblokCache(options: CacheIntegrationOptions = {}): AstroIntegration {
+  const { toolbar = true, reload = true } = options;
+
+  return {
+    name: "storyblok-cached-api",
+    hooks: {
+      "astro:config:setup": ({ command, addMiddleware, addDevToolbarApp }) => {
+        if (command !== "dev") {
+          return;
+        }
+        addMiddleware({ order: "pre", entrypoint: new URL("./dev-middleware.js", import.meta.url) });
+        if (toolbar) {
+          addDevToolbarApp({
+            id: TOOLBAR_APP_ID,
+            name: "Storyblok Cache",
+            icon: "searchFile",
+            entrypoint: new URL("./toolbar-app.js", import.meta.url),
+          });
+        }
+      },
+
+      "astro:server:setup": ({ server, toolbar: toolbarServer, logger }) => {
+        const cacheDirs = new Set<string>();
+        const ownWrites = new Map<string, number>();
+        let reloadTimer: ReturnType<typeof setTimeout> | undefined;
+
+        const reloadBrowser = (reason: string) => {
+          clearTimeout(reloadTimer);
+          reloadTimer = setTimeout(() => {
+            logger.info(`Reloading: ${reason}`);
+            server.ws.send({ type: "full-reload" });
+          }, RELOAD_DELAY);
+        };
+
+        const unregister = registerDevServer({
+          watch: (cacheDir) => {
+            const dir = resolve(cacheDir);
+            cacheDirs.add(dir);
+            server.watcher.add(dir);
+          },
+          written: (path) => {
+            const now = Date.now();
+            ownWrites.forEach((writtenAt, file) => {
+              if (now - writtenAt >= OWN_WRITE_WINDOW) {
+                ownWrites.delete(file);
+              }
+            });
+            ownWrites.set(path, now);
+          },
+          invalidated: () => {
+            if (reload) {
+              reloadBrowser("cache entries invalidated");
+            }
+          },
+        });
+
+        server.watcher.on("all", (event, file) => {
+          if (!reload || !isEntryFile(file, cacheDirs)) {
+            return;
+          }
+          const writtenAt = ownWrites.get(file);
+          if (event !== "unlink" && writtenAt !== undefined && Date.now() - writtenAt < OWN_WRITE_WINDOW) {
+            return;
+          }
+          reloadBrowser(`cache entry ${event === "unlink" ? "deleted" : "changed"}`);
+        });
+        server.httpServer?.once("close", unregister);
+
+        toolbarServer.on<PageRequest>(TOOLBAR_EVENTS.list, ({ pathname }) => {
+          toolbarServer.send<PageEntries>(TOOLBAR_EVENTS.entries, {
+            pathname,
+            entries: getPageEntries(pathname),
+          });
+        });
+
+        toolbarServer.on<RefreshRequest>(TOOLBAR_EVENTS.refresh, ({ pathname, ids }) => {
+          void refreshPageEntries(pathname, ids)
+            .then((removed) => reloadBrowser(`refetching ${removed} entries of ${pathname}`))
+            .catch((error: unknown) => logger.warn(`Error refreshing entries: ${String(error)}`));
+        });
+
+        toolbarServer.on(TOOLBAR_EVENTS.clear, () => {
+          void clearDevCaches()
+            .then((deleted) => reloadBrowser(`cleared ${deleted} entries`))
+            .catch((error: unknown) => logger.warn(`Error clearing the cache: ${String(error)}`));
+        });
+      },
+    },
+  };
+}
@@ -0,0 +1,262 @@
+import { join } from "node:path";
+import { CACHE_DIR, listNamespaces } from "./cache.js";
+import type { CacheInvalidateEvent } from "./hooks.js";
+import { resolveLogger } from "./logger.js";
+import type { CacheLogger } from "./logger.js";
+import { memoryTiers } from "./memory-cache.js";
+import { ReverseIndex, extractEntryRefs, reverseIndexes } from "./reverse-index.js";
+import type { StoryTarget } from "./reverse-index.js";
+import { FileSystemStore } from "./stores.js";
+import type { CacheStore } from "./stores.js";
+
+// Index builds in progress, so concurrent lookups scan the store only once
+const pendingBuilds = new Map<string | object, Promise<ReverseIndex>>();
+
+type InvalidationListener = (event: CacheInvalidateEvent) => void;
+
+// A wrapper's onInvalidate hook and the directories or stores it was added for.
+// Held weakly, so a discarded wrapper takes its hook with it.
+const wrapperHooks = new WeakMap<object, { hook: InvalidationListener; owners: Set<string | object> }>();
+
+// The wrappers with an onInvalidate hook, per directory or store
+const hookedWrappers = new Map<string | object, Set<WeakRef<object>>>();
+
+// Drops wrappers from hookedWrappers once they are garbage collected
+const releasedWrappers = new FinalizationRegistry<{ owner: string | object; ref: WeakRef<object> }>(
+  ({ owner, ref }) => {
+    const refs = hookedWrappers.get(owner);
+    refs?.delete(ref);
+    if (refs?.size === 0) {
+      hookedWrappers.delete(owner);
+    }
+  }
+);
+
+// Listeners for a whole cache directory, namespaces included, or store
+const cacheListeners = new Map<string | object, Set<InvalidationListener>>();
+
+/**
+ * Calls a wrapper's onInvalidate hook for invalidations in a directory or store,
+ * for as long as the wrapper is in use. Adding it for the same owner again has no effect.
+ *
+ * @param owner - The cache directory path or store instance
+ * @param wrapper - The object whose lifetime the hook is tied to
+ * @param hook - The onInvalidate hook
+ */
+export function addInvalidationHook(owner: string | object, wrapper: object, hook: InvalidationListener): void {
+  let registration = wrapperHooks.get(wrapper);
+  if (!registration) {
+    registration = { hook, owners: new Set() };
+    wrapperHooks.set(wrapper, registration);
+  }
+  if (registration.owners.has(owner)) {
+    return;
+  }
+  registration.owners.add(owner);
+
+  let refs = hookedWrappers.get(owner);
+  if (!refs) {
+    refs = new Set();
+    hookedWrappers.set(owner, refs);
+  }
+  const ref = new WeakRef(wrapper);
+  refs.add(ref);
+  releasedWrappers.register(wrapper, { owner, ref });
+}
+
+/**
+ * Calls a listener for invalidations in a cache directory, including its namespaces, or a store
+ *
+ * @param cacheDirOrStore - The cache directory path or store instance
+ * @param listener - Called with the invalidated keys of each directory or store
+ * @returns A function removing the listener again
+ */
+export function addInvalidationListener(
+  cacheDirOrStore: string | object,
+  listener: InvalidationListener
+): () => void {
+  let listeners = cacheListeners.get(cacheDirOrStore);
+  if (!listeners) {
+    listeners = new Set();
+    cacheListeners.set(cacheDirOrStore, listeners);
+  }
+  listeners.add(listener);
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0 && cacheListeners.get(cacheDirOrStore) === listeners) {
+      cacheListeners.delete(cacheDirOrStore);
+    }
+  };
+}
+
+/**
+ * Identifies the cache to invalidate entries in
+ */
+export interface InvalidationOptions {
+  /**
+   * Directory path for cache storage
+   * @default '.sb-dev-cache'
+   */
+  cacheDir?: string;
+
+  /**
+   * Store to invalidate entries in, instead of `cacheDir`
+   */
+  store?: CacheStore;
+
+  /**
+   * Enable console logging for invalidated entries
+   * @default true
+   */
+  verbose?: boolean;
+
+  /**
+   * Where log output goes when `verbose` is enabled
+   * @default console
+   */
+  logger?: CacheLogger;
+}
+
+/**
+ * Returns the reverse index for a cache, scanning every stored entry the first time
+ *
+ * @param owner - The cache directory path or store instance
+ * @param store - The store holding the entries
+ * @returns The reverse index, kept up to date by later writes and deletes
+ */
+export function getReverseIndex(owner: string | object, store: CacheStore): Promise<ReverseIndex> {
+  const existing = reverseIndexes.get(owner);
+  if (existing) {
+    return Promise.resolve(existing);
+  }
+
+  let pending = pendingBuilds.get(owner);
+  if (!pending) {
+    pending = (async () => {
+      const index = new ReverseIndex();
+      for (const key of await store.list()) {
+        const cached = await store.get(key);
+        if (cached !== null) {
+          index.add(key, extractEntryRefs(cached));
+        }
+      }
+      reverseIndexes.set(owner, index);
+      return index;
+    })().finally(() => {
+      pendingBuilds.delete(owner);
+    });
+    pendingBuilds.set(owner, pending);
+  }
+
+  return pending;
+}
+
+// Deletes the matching entries of a single cache directory or store. The root is the
+// cache directory the owner is a namespace of, or the owner itself.
+async function invalidateIn(
+  owner: string | object,
+  store: CacheStore,
+  target: StoryTarget,
+  logger: CacheLogger,
+  root: string | object = owner
+): Promise<string[]> {
+  const index = await getReverseIndex(owner, store);
+  const keys = index.find(target);
+
+  for (const key of keys) {
+    await store.delete(key);
+    index.remove(key);
+    memoryTiers.get(owner)?.delete(key);
+    logger.log(`[Cache] ✗ Invalidated: ${key}`);
+  }
+
+  if (keys.length > 0) {
+    const listeners = [...(cacheListeners.get(root) ?? [])];
+    hookedWrappers.get(owner)?.forEach((ref) => {
+      const wrapper = ref.deref();
+      const hook = wrapper && wrapperHooks.get(wrapper)?.hook;
+      if (hook) {
+        listeners.push(hook);
+      }
+    });
+
+    listeners.forEach((listener) => {
+      try {
+        listener({ target, keys });
+      } catch (error) {
+        logger.warn("[Cache] Error in onInvalidate hook:", error);
+      }
+    });
+  }
+
+  return keys;
+}
+
+/**
+ * Deletes every cached entry that contains a story, matched by id, uuid or full slug,
+ * or that was written with a tag
+ *
+ * Every namespace inside `cacheDir` is searched as well.
+ *
+ * @param target - The story id, uuid, full slug and/or tag
+ * @param options - The cache to invalidate entries in
+ * @returns The deleted cache keys, prefixed with their namespace (e.g. `staging/draft/<key>`)
+ * for entries inside a namespace
+ *
+ * @example
+ * ```typescript
+ * await invalidateEntries({ storyId: 123456, slug: 'blog/my-post' });
+ * await invalidateEntries({ tag: 'navigation' });
+ * ```
+ */
+export async function invalidateEntries(
+  target: StoryTarget,
+  options: InvalidationOptions = {}
+): Promise<string[]> {
+  const { cacheDir = CACHE_DIR, verbose = true } = options;
+  const logger = resolveLogger(verbose, options.logger);
+
+  if (options.store) {
+    return invalidateIn(options.store, options.store, target, logger);
+  }
+
+  const invalidated = await invalidateIn(
+    cacheDir,
+    new FileSystemStore(cacheDir, false),
+    target,
+    logger
+  );
+  for (const namespace of listNamespaces(cacheDir)) {
+    const dir = join(cacheDir, namespace);
+    const keys = await invalidateIn(dir, new FileSystemStore(dir, false), target, logger, cacheDir);
+    invalidated.push(...keys.map((key) => `${namespace}/${key}`));
+  }
+
+  return invalidated;
+}
+
+/**
+ * Deletes every cached entry that depends on a story: the story itself, listings
+ * containing it, and pages that embed it through resolved relations or links
+ *
+ * @param idOrUuid - The story id, or its uuid
+ * @param options - The cache to invalidate entries in
+ * @returns The deleted cache keys, as returned by invalidateEntries
+ *
+ * @example
+ * ```typescript
+ * // An author changed: drop every article that resolved it
+ * await invalidateStory(123456);
+ * await invalidateStory('c2b0b3c4-5b0a-4b5e-9d4e-1f2a3b4c5d6e');
+ * ```
+ */
+export function invalidateStory(
+  idOrUuid: number | string,
+  options: InvalidationOptions = {}
+): Promise<string[]> {
+  const target: StoryTarget = typeof idOrUuid === "number" || /^\d+$/.test(idOrUuid)
+    ? { storyId: Number(idOrUuid) }
+    : { uuid: idOrUuid };
+  return invalidateEntries(target, options);
+}
@@ -0,0 +1,36 @@
+/**
+ * Receives the cache's log output, e.g. a pino or winston logger, or `console`
+ */
+export interface CacheLogger {
+  /**
+   * Routine messages such as hits, misses and writes
+   */
+  log: (message: string, ...details: unknown[]) => void;
+
+  /**
+   * Problems the cache recovered from, such as corrupted entries or failed requests
+   */
+  warn: (message: string, ...details: unknown[]) => void;
+}
+
+const silentLogger: CacheLogger = {
+  log: () => undefined,
+  warn: () => undefined,
+};
+
+/**
+ * Picks the logger for a verbosity setting
+ *
+ * @param verbose - False to silence output, true for the default, or a logger to use directly
+ * @param logger - The default logger
+ * @returns The logger to write to
+ */
+export function resolveLogger(
+  verbose: boolean | CacheLogger = true,
+  logger: CacheLogger = console
+): CacheLogger {
+  if (verbose === false) {
+    return silentLogger;
+  }
+  return verbose === true ? logger : verbose;
+}
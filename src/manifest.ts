@@ -0,0 +1,485 @@
+import type { ISbStoryParams } from "storyblok-js-client";
+import { createHash } from "node:crypto";
+import { existsSync, readdirSync, readFileSync, statSync, unlinkSync } from "node:fs";
+import { join } from "node:path";
+import { CACHE_DIR, listEntryDirs } from "./cache.js";
+import { isCacheEntry } from "./entry.js";
+import { normalizeParams } from "./params.js";
+import { extractStoryRefs } from "./reverse-index.js";
+import { DIRECTORY_LOCK, withFileLock, writeFileAtomic } from "./safe-fs.js";
+
+/**
+ * Name of the manifest file inside a cache directory
+ */
+export const MANIFEST_FILE = ".manifest";
+
+// Delay before in-memory manifest changes are written to disk
+const FLUSH_DELAY = 100;
+
+/**
+ * Metadata recorded for each cache entry
+ */
+export interface ManifestRecord {
+  /**
+   * The cache key (filename)
+   */
+  key: string;
+
+  /**
+   * The Storyblok path the response was requested with, if recorded
+   */
+  slug?: string;
+
+  /**
+   * The request parameters with sorted keys and undefined values removed
+   */
+  params?: ISbStoryParams;
+
+  /**
+   * The space cache version (cv) the entry was written under, if recorded
+   */
+  cv?: number;
+
+  /**
+   * Unix timestamp in milliseconds of when the entry was written
+   */
+  createdAt: number;
+
+  /**
+   * Unix timestamp in milliseconds of when the entry was last read, from disk or from the memory tier
+   */
+  accessedAt: number;
+
+  /**
+   * File modification time, used to detect changes made outside the manifest
+   */
+  modifiedAt: number;
+
+  /**
+   * File size in bytes
+   */
+  size: number;
+
+  /**
+   * Ids of the stories contained in the response, including resolved relations and links
+   */
+  storyIds: number[];
+
+  /**
+   * SHA-256 of the cached response, independent of when it was written
+   */
+  contentHash: string;
+
+  /**
+   * The namespace the entry is in (e.g. `a1b2c3d4e5f6/draft`), set by listCacheEntries
+   * for entries outside the top level of the cache directory
+   */
+  namespace?: string;
+}
+
+/**
+ * Criteria for listCacheEntries. All given criteria must match.
+ */
+export interface CacheEntryFilter {
+  /**
+   * Only entries in this namespace (e.g. `a1b2c3d4e5f6` or `a1b2c3d4e5f6/draft`),
+   * including the namespaces nested inside it
+   */
+  namespace?: string;
+
+  /**
+   * Only entries whose slug starts with this prefix
+   */
+  slugPrefix?: string;
+
+  /**
+   * Only entries containing this story
+   */
+  storyId?: number;
+
+  /**
+   * Only entries written under this space cache version
+   */
+  cv?: number;
+
+  /**
+   * Only entries written before this Unix timestamp in milliseconds
+   */
+  createdBefore?: number;
+
+  /**
+   * Only entries written at or after this Unix timestamp in milliseconds
+   */
+  createdAfter?: number;
+
+  /**
+   * Only entries last read before this Unix timestamp in milliseconds
+   */
+  accessedBefore?: number;
+}
+
+/**
+ * Differences found and fixed by repairManifest
+ */
+export interface ManifestRepair {
+  /**
+   * Entries found on disk that were missing from the manifest
+   */
+  added: string[];
+
+  /**
+   * Manifest records whose file no longer exists
+   */
+  removed: string[];
+
+  /**
+   * Manifest records whose file was changed outside the manifest
+   */
+  updated: string[];
+}
+
+interface LoadedManifest {
+  records: Map<string, ManifestRecord>;
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+const manifests = new Map<string, LoadedManifest>();
+let exitHookInstalled = false;
+
+function getCacheDirPath(cacheDir: string): string {
+  return join(process.cwd(), cacheDir);
+}
+
+/**
+ * Builds a manifest record from the serialized content of a cache file
+ */
+function createRecord(
+  key: string,
+  content: string,
+  file: { size: number; mtimeMs: number },
+  previous?: ManifestRecord
+): ManifestRecord {
+  const now = Date.now();
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    parsed = undefined;
+  }
+
+  const entry = isCacheEntry(parsed) ? parsed : undefined;
+  const data = entry ? entry.data : parsed;
+  const record: ManifestRecord = {
+    key,
+    createdAt: entry?.timestamp ?? previous?.createdAt ?? file.mtimeMs,
+    accessedAt: previous?.accessedAt ?? now,
+    modifiedAt: file.mtimeMs,
+    size: file.size,
+    storyIds: extractStoryRefs(data, entry?.slug).ids,
+    contentHash: createHash("sha256").update(JSON.stringify(data) ?? "").digest("hex"),
+  };
+
+  if (entry?.slug !== undefined) {
+    record.slug = entry.slug;
+  }
+  if (entry?.params !== undefined) {
+    record.params = normalizeParams(entry.params);
+  }
+  if (entry?.cv !== undefined) {
+    record.cv = entry.cv;
+  }
+  return record;
+}
+
+/**
+ * Writes the manifest of a cache directory to disk immediately
+ *
+ * Changes are otherwise written shortly after they happen and when the process exits.
+ *
+ * @param cacheDir - The cache directory path, or undefined to flush every loaded manifest
+ */
+export function flushManifest(cacheDir?: string): void {
+  if (cacheDir === undefined) {
+    [...manifests.keys()].forEach((dir) => flushManifest(dir));
+    return;
+  }
+
+  const manifest = manifests.get(cacheDir);
+  if (!manifest?.timer) {
+    return;
+  }
+  clearTimeout(manifest.timer);
+  manifest.timer = undefined;
+
+  // Never recreate a directory that was deleted in the meantime
+  const cacheDirPath = getCacheDirPath(cacheDir);
+  if (!existsSync(cacheDirPath)) {
+    manifests.delete(cacheDir);
+    return;
+  }
+
+  const entries = Object.fromEntries(manifest.records);
+  withFileLock(join(cacheDirPath, DIRECTORY_LOCK), () =>
+    writeFileAtomic(join(cacheDirPath, MANIFEST_FILE), JSON.stringify({ version: 1, entries }))
+  );
+}
+
+function tryFlushManifest(cacheDir?: string): void {
+  try {
+    flushManifest(cacheDir);
+  } catch {
+    // The manifest repairs itself from the files on the next load
+  }
+}
+
+function scheduleFlush(cacheDir: string, manifest: LoadedManifest): void {
+  if (manifest.timer) {
+    return;
+  }
+  manifest.timer = setTimeout(() => tryFlushManifest(cacheDir), FLUSH_DELAY);
+  manifest.timer.unref?.();
+
+  if (!exitHookInstalled) {
+    exitHookInstalled = true;
+    process.once("exit", () => tryFlushManifest());
+  }
+}
+
+/**
+ * Reconciles a manifest with the files on disk
+ */
+function reconcile(cacheDir: string, manifest: LoadedManifest): ManifestRepair {
+  const cacheDirPath = getCacheDirPath(cacheDir);
+  const repair: ManifestRepair = { added: [], removed: [], updated: [] };
+  const files = existsSync(cacheDirPath)
+    ? readdirSync(cacheDirPath).filter((file: string) => file.endsWith(".json"))
+    : [];
+  const onDisk = new Set(files);
+
+  files.forEach((key) => {
+    const path = join(cacheDirPath, key);
+    const file = statSync(path);
+    const record = manifest.records.get(key);
+    if (record && record.size === file.size && record.modifiedAt === file.mtimeMs) {
+      return;
+    }
+
+    manifest.records.set(key, createRecord(key, readFileSync(path, "utf-8"), file, record));
+    (record ? repair.updated : repair.added).push(key);
+  });
+
+  [...manifest.records.keys()].forEach((key) => {
+    if (!onDisk.has(key)) {
+      manifest.records.delete(key);
+      repair.removed.push(key);
+    }
+  });
+
+  if (repair.added.length + repair.removed.length + repair.updated.length > 0) {
+    scheduleFlush(cacheDir, manifest);
+  }
+  return repair;
+}
+
+/**
+ * Reads the records stored in a manifest file
+ */
+function readManifestFile(cacheDir: string): Map<string, ManifestRecord> {
+  const manifestPath = join(getCacheDirPath(cacheDir), MANIFEST_FILE);
+  if (!existsSync(manifestPath)) {
+    return new Map();
+  }
+
+  try {
+    const stored = JSON.parse(readFileSync(manifestPath, "utf-8")) as {
+      entries?: Record<string, ManifestRecord>;
+    };
+    return new Map(Object.entries(stored.entries ?? {}));
+  } catch {
+    // A corrupted manifest is rebuilt from the files on disk
+    return new Map();
+  }
+}
+
+/**
+ * Returns the in-memory manifest for a directory, loading and repairing it on first use
+ */
+function loadManifest(cacheDir: string): LoadedManifest {
+  let manifest = manifests.get(cacheDir);
+  if (manifest) {
+    return manifest;
+  }
+
+  manifest = { records: readManifestFile(cacheDir) };
+  manifests.set(cacheDir, manifest);
+  reconcile(cacheDir, manifest);
+  return manifest;
+}
+
+/**
+ * Records a cache write in the manifest
+ *
+ * @param cacheDir - The cache directory path
+ * @param key - The cache key that was written
+ * @param content - The serialized file content
+ */
+export function recordManifestWrite(cacheDir: string, key: string, content: string): void {
+  const manifest = loadManifest(cacheDir);
+  const file = statSync(join(getCacheDirPath(cacheDir), key));
+  manifest.records.set(key, {
+    ...createRecord(key, content, file),
+    accessedAt: Date.now(),
+  });
+  scheduleFlush(cacheDir, manifest);
+}
+
+/**
+ * Records a cache read in the manifest
+ *
+ * @param cacheDir - The cache directory path
+ * @param key - The cache key that was read
+ */
+export function recordManifestRead(cacheDir: string, key: string): void {
+  const manifest = loadManifest(cacheDir);
+  const record = manifest.records.get(key);
+  if (record) {
+    record.accessedAt = Date.now();
+    scheduleFlush(cacheDir, manifest);
+  }
+}
+
+/**
+ * Records a cache deletion in the manifest
+ *
+ * @param cacheDir - The cache directory path
+ * @param key - The cache key that was deleted
+ */
+export function recordManifestDelete(cacheDir: string, key: string): void {
+  const manifest = loadManifest(cacheDir);
+  if (manifest.records.delete(key)) {
+    scheduleFlush(cacheDir, manifest);
+  }
+}
+
+/**
+ * Returns the manifest records of a cache directory as known to this process,
+ * without reconciling them with the files on disk
+ *
+ * @param cacheDir - The cache directory path
+ * @returns The manifest records, in insertion order
+ */
+export function getManifestRecords(cacheDir: string): ManifestRecord[] {
+  return [...loadManifest(cacheDir).records.values()];
+}
+
+/**
+ * Deletes the manifest of a cache directory
+ *
+ * @param cacheDir - The cache directory path
+ */
+export function resetManifest(cacheDir: string): void {
+  const manifest = manifests.get(cacheDir);
+  if (manifest?.timer) {
+    clearTimeout(manifest.timer);
+  }
+  manifests.delete(cacheDir);
+
+  const manifestPath = join(getCacheDirPath(cacheDir), MANIFEST_FILE);
+  if (existsSync(manifestPath)) {
+    unlinkSync(manifestPath);
+  }
+}
+
+/**
+ * Brings the manifest in line with the files on disk: adds records for unknown
+ * files, refreshes records of files changed elsewhere and drops records of deleted files
+ *
+ * @param cacheDir - The cache directory path
+ * @returns The keys that were added, removed or updated
+ */
+export function repairManifest(cacheDir: string = CACHE_DIR): ManifestRepair {
+  // Drop the loaded copy so the manifest file itself is re-read and reconciled
+  flushManifest(cacheDir);
+  manifests.delete(cacheDir);
+
+  const manifest: LoadedManifest = { records: readManifestFile(cacheDir) };
+  manifests.set(cacheDir, manifest);
+  return reconcile(cacheDir, manifest);
+}
+
+/**
+ * Queries the metadata of the entries directly inside a directory, without the
+ * namespaces below it
+ *
+ * @param filter - Criteria the returned entries must match; `namespace` is ignored
+ * @param cacheDir - The directory path
+ * @returns The matching manifest records, sorted by key
+ */
+export function listDirectoryEntries(
+  filter: CacheEntryFilter = {},
+  cacheDir: string = CACHE_DIR
+): ManifestRecord[] {
+  const manifest = loadManifest(cacheDir);
+  reconcile(cacheDir, manifest);
+
+  const slugPrefix = filter.slugPrefix?.replace(/^\//, "");
+  return [...manifest.records.values()]
+    .filter((record) => {
+      if (slugPrefix !== undefined && !record.slug?.replace(/^\//, "").startsWith(slugPrefix)) {
+        return false;
+      }
+      if (filter.storyId !== undefined && !record.storyIds.includes(filter.storyId)) {
+        return false;
+      }
+      if (filter.cv !== undefined && record.cv !== filter.cv) {
+        return false;
+      }
+      if (filter.createdBefore !== undefined && record.createdAt >= filter.createdBefore) {
+        return false;
+      }
+      if (filter.createdAfter !== undefined && record.createdAt < filter.createdAfter) {
+        return false;
+      }
+      if (filter.accessedBefore !== undefined && record.accessedAt >= filter.accessedBefore) {
+        return false;
+      }
+      return true;
+    })
+    .sort((a, b) => a.key.localeCompare(b.key));
+}
+
+/**
+ * Queries the metadata of the entries in a cache directory and every namespace in it
+ *
+ * The manifests are reconciled with the files on disk first, so entries written
+ * or deleted by other processes are reflected.
+ *
+ * @param filter - Criteria the returned entries must match
+ * @param cacheDir - The cache directory path
+ * @returns The matching manifest records, sorted by namespace and key
+ *
+ * @example
+ * ```typescript
+ * import { listCacheEntries } from 'storyblok-cached-api';
+ *
+ * // Every cached response containing story 42
+ * const entries = listCacheEntries({ storyId: 42 });
+ *
+ * // Draft blog entries not read during the last day
+ * const stale = listCacheEntries({
+ *   namespace: 'a1b2c3d4e5f6/draft',
+ *   slugPrefix: 'cdn/stories/blog',
+ *   accessedBefore: Date.now() - 24 * 60 * 60 * 1000
+ * });
+ * ```
+ */
+export function listCacheEntries(
+  filter: CacheEntryFilter = {},
+  cacheDir: string = CACHE_DIR
+): ManifestRecord[] {
+  return listEntryDirs(cacheDir, filter.namespace).flatMap(({ namespace, dir }) =>
+    listDirectoryEntries(filter, dir).map((record) =>
+      namespace === "" ? { ...record } : { ...record, namespace }
+    )
+  );
+}
@@ -0,0 +1,143 @@
+/**
+ * Configuration options for the in-memory cache tier
+ */
+export interface MemoryCacheOptions {
+  /**
+   * Maximum number of entries kept in memory
+   * @default 500
+   */
+  maxEntries?: number;
+
+  /**
+   * Approximate maximum size of all entries in bytes, measured as serialized JSON
+   * @default 52428800 (50 MB)
+   */
+  maxBytes?: number;
+}
+
+interface MemoryCacheItem<T> {
+  value: T;
+  size: number;
+}
+
+/**
+ * A least-recently-used cache bounded by entry count and approximate size
+ *
+ * Values are copied on write and on every read, so a caller changing a returned
+ * object in place doesn't change what later hits see.
+ */
+export class MemoryCache<T = unknown> {
+  private readonly items = new Map<string, MemoryCacheItem<T>>();
+  private readonly maxEntries: number;
+  private readonly maxBytes: number;
+  private totalBytes = 0;
+
+  constructor(options: MemoryCacheOptions = {}) {
+    this.maxEntries = options.maxEntries ?? 500;
+    this.maxBytes = options.maxBytes ?? 50 * 1024 * 1024;
+  }
+
+  /**
+   * Number of entries currently held
+   */
+  get size(): number {
+    return this.items.size;
+  }
+
+  /**
+   * Approximate number of bytes currently held
+   */
+  get bytes(): number {
+    return this.totalBytes;
+  }
+
+  /**
+   * Returns a copy of a value and marks it as most recently used
+   *
+   * @param key - The cache key to look up
+   * @returns A copy of the cached value or undefined if not present
+   */
+  get(key: string): T | undefined {
+    const item = this.items.get(key);
+    if (!item) {
+      return undefined;
+    }
+
+    // Re-insert to move the key to the most recently used position
+    this.items.delete(key);
+    this.items.set(key, item);
+    return structuredClone(item.value);
+  }
+
+  /**
+   * Stores a copy of a value, evicting least recently used entries when over a limit
+   *
+   * @param key - The cache key to store
+   * @param value - The value to cache
+   * @param size - Size in bytes, computed from the serialized value if omitted
+   */
+  set(key: string, value: T, size: number = JSON.stringify(value)?.length ?? 0): void {
+    this.delete(key);
+
+    // Values larger than the whole budget would evict everything else for nothing
+    if (size > this.maxBytes || this.maxEntries <= 0) {
+      return;
+    }
+
+    this.items.set(key, { value: structuredClone(value), size });
+    this.totalBytes += size;
+
+    for (const [oldestKey] of this.items) {
+      if (this.items.size <= this.maxEntries && this.totalBytes <= this.maxBytes) {
+        break;
+      }
+      this.delete(oldestKey);
+    }
+  }
+
+  /**
+   * Removes a value
+   *
+   * @param key - The cache key to remove
+   * @returns True if the key was present
+   */
+  delete(key: string): boolean {
+    const item = this.items.get(key);
+    if (!item) {
+      return false;
+    }
+
+    this.items.delete(key);
+    this.totalBytes -= item.size;
+    return true;
+  }
+
+  /**
+   * Removes all values
+   */
+  clear(): void {
+    this.items.clear();
+    this.totalBytes = 0;
+  }
+}
+
+/**
+ * Memory tiers shared by every wrapper caching into the same directory or store
+ */
+export const memoryTiers = new Map<string | object, MemoryCache>();
+
+/**
+ * Returns the shared memory tier for a cache directory or store, creating it on first use
+ *
+ * @param owner - The cache directory path or store instance the tier sits in front of
+ * @param options - Limits applied when the tier is created
+ * @returns The memory tier for the owner
+ */
+export function getMemoryTier(owner: string | object, options: MemoryCacheOptions = {}): MemoryCache {
+  let tier = memoryTiers.get(owner);
+  if (!tier) {
+    tier = new MemoryCache(options);
+    memoryTiers.set(owner, tier);
+  }
+  return tier;
+}
@@ -0,0 +1,50 @@
+import { createHash } from "node:crypto";
+
+/**
+ * What a cache namespace is derived from
+ */
+export interface NamespaceSource {
+  /**
+   * An explicit name for the space, used instead of the token fingerprint
+   */
+  namespace?: string;
+
+  /**
+   * The access token the client authenticates with
+   */
+  token?: string;
+
+  /**
+   * The content version requested (`draft` or `published`)
+   */
+  version?: string;
+}
+
+/**
+ * Derives a short, stable identifier from an access token, so the token itself
+ * never appears on disk
+ *
+ * @param token - The access token
+ * @returns The first 12 hex characters of the token's SHA-256
+ */
+export function tokenFingerprint(token: string): string {
+  return createHash("sha256").update(token).digest("hex").substring(0, 12);
+}
+
+/**
+ * Resolves the namespace a request is cached under, as a relative directory
+ * `<space>/<version>`
+ *
+ * @param source - The explicit namespace or token, and the requested version
+ * @returns The namespace, or undefined when there is no space to partition by
+ */
+export function resolveNamespace({ namespace, token, version }: NamespaceSource): string | undefined {
+  const space = namespace ?? (token ? tokenFingerprint(token) : undefined);
+  if (space === undefined) {
+    return undefined;
+  }
+
+  // Keep each part a single safe path segment
+  const segment = (value: string) => value.replace(/[^a-zA-Z0-9_-]/g, "-");
+  return `${segment(space)}/${segment(version ?? "published")}`;
+}
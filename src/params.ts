@@ -0,0 +1,77 @@
+import type { ISbStoryParams } from "storyblok-js-client";
+
+/**
+ * Parameters that are never written into a cache key or entry
+ */
+export const SECRET_PARAMS = ["token"];
+
+/**
+ * Normalizes a value for stable comparison and serialization: object keys are
+ * sorted at every depth, undefined values are dropped and arrays of primitives
+ * are sorted, so `["b", "a"]` and `["a", "b"]` compare equal
+ *
+ * @param value - The value to normalize, usually request parameters
+ * @returns An equivalent value with a canonical shape
+ */
+export function normalizeParams<T>(value: T): T {
+  if (Array.isArray(value)) {
+    const items = value.map((item) => normalizeParams(item));
+    const primitive = items.every((item) => typeof item !== "object" || item === null);
+    return (primitive ? items.sort((a, b) => compareJson(a, b)) : items) as T;
+  }
+
+  if (typeof value === "object" && value !== null) {
+    return Object.fromEntries(
+      Object.keys(value)
+        .sort()
+        .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+        .map((key) => [key, normalizeParams((value as Record<string, unknown>)[key])])
+    ) as T;
+  }
+
+  return value;
+}
+
+function compareJson(a: unknown, b: unknown): number {
+  const left = JSON.stringify(a) ?? "";
+  const right = JSON.stringify(b) ?? "";
+  return left < right ? -1 : left > right ? 1 : 0;
+}
+
+/**
+ * Removes secret parameters such as the access token, so they are never persisted
+ *
+ * @param params - The request parameters
+ * @returns A copy of the parameters without secrets, or undefined if none were given
+ */
+export function redactParams(params?: ISbStoryParams): ISbStoryParams | undefined {
+  if (!params) {
+    return undefined;
+  }
+  return Object.fromEntries(
+    Object.entries(params).filter(([key]) => !SECRET_PARAMS.includes(key))
+  ) as ISbStoryParams;
+}
+
+/**
+ * Picks the parameters that identify a response
+ *
+ * @param params - The request parameters
+ * @param ignore - Parameters to leave out
+ * @param include - If given, only these parameters are kept
+ * @returns The remaining parameters, without secrets
+ */
+export function selectParams(
+  params: ISbStoryParams,
+  ignore: string[],
+  include?: string[]
+): ISbStoryParams {
+  return Object.fromEntries(
+    Object.entries(params).filter(
+      ([key]) =>
+        !SECRET_PARAMS.includes(key) &&
+        !ignore.includes(key) &&
+        (include === undefined || include.includes(key))
+    )
+  ) as ISbStoryParams;
+}
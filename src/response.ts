@@ -0,0 +1,101 @@
+/**
+ * Headers never written to the cache
+ */
+export const EXCLUDED_HEADERS = ["set-cookie"];
+
+/**
+ * A Storyblok client response as written to the cache
+ *
+ * Responses written before this envelope existed have the same shape, so they
+ * are read back the same way.
+ */
+export interface SerializedResponse {
+  /**
+   * The response body
+   */
+  data: unknown;
+
+  /**
+   * The HTTP status, if the client reported one
+   */
+  status?: number;
+
+  /**
+   * Entries per page of a paginated response, parsed from the `per-page` header
+   */
+  perPage?: number;
+
+  /**
+   * Total number of entries of a paginated response, parsed from the `total` header
+   */
+  total?: number;
+
+  /**
+   * The response headers with lowercase names
+   */
+  headers?: Record<string, string>;
+
+  /**
+   * True if the client returned the headers as a `Headers` instance, so they are
+   * restored as one
+   */
+  headersInstance?: boolean;
+}
+
+/**
+ * Converts a client response into the envelope written to the cache
+ *
+ * @param response - The response returned by the client's get method
+ * @returns The serializable envelope
+ */
+export function serializeResponse(response: unknown): SerializedResponse {
+  const { data, status, perPage, total, headers } = (response ?? {}) as Record<string, unknown>;
+  const serialized: SerializedResponse = { data };
+
+  if (typeof status === "number") {
+    serialized.status = status;
+  }
+  if (typeof perPage === "number") {
+    serialized.perPage = perPage;
+  }
+  if (typeof total === "number") {
+    serialized.total = total;
+  }
+
+  if (headers instanceof Headers) {
+    serialized.headers = filterHeaders(headers.entries());
+    serialized.headersInstance = true;
+  } else if (typeof headers === "object" && headers !== null) {
+    serialized.headers = filterHeaders(Object.entries(headers));
+  }
+
+  return serialized;
+}
+
+/**
+ * Rebuilds a client response from its cached envelope
+ *
+ * @param serialized - The envelope read from the cache
+ * @returns A response shaped like the one the client returned
+ */
+export function deserializeResponse<T = unknown>(serialized: SerializedResponse): T {
+  const { headers, headersInstance, ...rest } = serialized;
+  const response: Record<string, unknown> = { ...rest };
+
+  if (headers !== undefined) {
+    response["headers"] = headersInstance ? new Headers(headers) : { ...headers };
+  }
+
+  return response as T;
+}
+
+function filterHeaders(entries: Iterable<[string, unknown]>): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const [name, value] of entries) {
+    const key = name.toLowerCase();
+    if (!EXCLUDED_HEADERS.includes(key) && value !== undefined && value !== null) {
+      headers[key] = String(value);
+    }
+  }
+  return headers;
+}
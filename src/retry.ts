@@ -0,0 +1,109 @@
+/**
+ * Configuration options for retrying failed API requests
+ */
+export interface RetryOptions {
+  /**
+   * Maximum number of retries after the first attempt
+   * @default 3
+   */
+  retries?: number;
+
+  /**
+   * Delay before the first retry in milliseconds, doubled on every further retry
+   * @default 250
+   */
+  minDelay?: number;
+
+  /**
+   * Upper bound for a single delay in milliseconds, including Retry-After values
+   * @default 10000
+   */
+  maxDelay?: number;
+}
+
+/**
+ * The shape of errors rejected by the Storyblok client
+ */
+interface ApiError {
+  status?: unknown;
+  response?: { headers?: unknown };
+}
+
+/**
+ * Returns the HTTP status of an error rejected by the Storyblok client
+ *
+ * @param error - The rejected value
+ * @returns The status, or undefined for network errors and timeouts
+ */
+export function getErrorStatus(error: unknown): number | undefined {
+  const status = (error as ApiError | null)?.status;
+  return typeof status === "number" ? status : undefined;
+}
+
+/**
+ * Checks whether a failed request is worth retrying: rate limits, server
+ * errors and failures without a response (network errors, timeouts)
+ *
+ * @param error - The rejected value
+ * @returns True if the request may succeed when retried
+ */
+export function isRetryableError(error: unknown): boolean {
+  const status = getErrorStatus(error);
+  return status === undefined || status === 429 || status >= 500;
+}
+
+/**
+ * Reads the Retry-After header of a rate-limited response
+ *
+ * @param error - The rejected value
+ * @param now - The current time in milliseconds
+ * @returns The requested delay in milliseconds, or undefined if absent or unparseable
+ */
+export function getRetryAfter(error: unknown, now: number = Date.now()): number | undefined {
+  const headers = (error as ApiError | null)?.response?.headers;
+  const value = headers instanceof Headers
+    ? headers.get("retry-after")
+    : (headers as Record<string, unknown> | undefined)?.["retry-after"];
+  if (typeof value !== "string" && typeof value !== "number") {
+    return undefined;
+  }
+
+  // Either a number of seconds or an HTTP date
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(String(value));
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Runs a request, retrying retryable failures with exponential backoff.
+ * Rate-limited responses wait for their Retry-After delay when given.
+ *
+ * @param request - The request to run
+ * @param options - Retry limits
+ * @param onRetry - Called before waiting for each retry
+ * @returns The request's result
+ */
+export async function withRetry<T>(
+  request: () => Promise<T>,
+  { retries = 3, minDelay = 250, maxDelay = 10_000 }: RetryOptions = {},
+  onRetry?: (error: unknown, attempt: number, delay: number) => void
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await request();
+    } catch (error) {
+      if (attempt > retries || !isRetryableError(error)) {
+        throw error;
+      }
+
+      const backoff = minDelay * 2 ** (attempt - 1);
+      const retryAfter = getErrorStatus(error) === 429 ? getRetryAfter(error) : undefined;
+      const delay = Math.min(maxDelay, retryAfter ?? backoff);
+      onRetry?.(error, attempt, delay);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
@@ -0,0 +1,272 @@
+import { isCacheEntry } from "./entry.js";
+
+/**
+ * Stories referenced by a cached response
+ */
+export interface StoryRefs {
+  /**
+   * Story ids
+   */
+  ids: number[];
+
+  /**
+   * Story uuids
+   */
+  uuids: string[];
+
+  /**
+   * Story full slugs, without leading or trailing slashes
+   */
+  slugs: string[];
+
+  /**
+   * Tags the entry was written with
+   */
+  tags?: string[];
+}
+
+/**
+ * Identifies the stories to look up in a reverse index
+ */
+export interface StoryTarget {
+  /**
+   * The story id
+   */
+  storyId?: number;
+
+  /**
+   * The story uuid
+   */
+  uuid?: string;
+
+  /**
+   * The story full slug (e.g. `blog/my-post`)
+   */
+  slug?: string;
+
+  /**
+   * A tag given with the cache directive of the requests
+   */
+  tag?: string;
+}
+
+interface StoryData {
+  id?: unknown;
+  uuid?: unknown;
+  full_slug?: unknown;
+  slug?: unknown;
+}
+
+interface ResponseData {
+  story?: StoryData;
+  stories?: StoryData[];
+  links?: StoryData[] | Record<string, StoryData>;
+  rel_uuids?: unknown;
+  link_uuids?: unknown;
+}
+
+/**
+ * Normalizes a story slug by removing leading and trailing slashes
+ *
+ * @param slug - The story slug
+ * @returns The normalized slug
+ */
+export function normalizeStorySlug(slug: string): string {
+  return slug.replace(/^\/+|\/+$/g, "");
+}
+
+/**
+ * Collects the stories a Storyblok response contains or depends on: the requested
+ * stories, stories resolved into their content through `resolve_relations` and
+ * `resolve_links`, and the `rels`, `links`, `rel_uuids` and `link_uuids` lists
+ *
+ * @param response - The response returned by the API's get method
+ * @param requestSlug - The path the response was requested with (e.g. `cdn/stories/home`)
+ * @returns The ids, uuids and full slugs of the contained stories
+ */
+export function extractStoryRefs(response: unknown, requestSlug?: string): StoryRefs {
+  const ids = new Set<number>();
+  const uuids = new Set<string>();
+  const slugs = new Set<string>();
+
+  const addStory = (story: StoryData | null | undefined) => {
+    if (typeof story !== "object" || story === null) {
+      return;
+    }
+    if (typeof story.id === "number") {
+      ids.add(story.id);
+    }
+    if (typeof story.uuid === "string") {
+      uuids.add(story.uuid);
+    }
+    // Link objects carry the full path in `slug`
+    const slug = story.full_slug ?? story.slug;
+    if (typeof slug === "string") {
+      slugs.add(normalizeStorySlug(slug));
+    }
+  };
+
+  const addUuids = (values: unknown) => {
+    if (Array.isArray(values)) {
+      values.forEach((value) => typeof value === "string" && uuids.add(value));
+    }
+  };
+
+  // Resolved relations and links are embedded as full story objects anywhere in the content
+  const visited = new WeakSet<object>();
+  const addEmbedded = (value: unknown) => {
+    if (typeof value !== "object" || value === null || visited.has(value)) {
+      return;
+    }
+    visited.add(value);
+
+    const story = value as StoryData;
+    if (typeof story.id === "number" && typeof story.uuid === "string" && typeof story.full_slug === "string") {
+      addStory(story);
+    }
+    Object.values(value).forEach(addEmbedded);
+  };
+
+  const data = (response as { data?: ResponseData } | null)?.data;
+  addStory(data?.story);
+  if (Array.isArray(data?.stories)) {
+    data.stories.forEach(addStory);
+  }
+  if (typeof data?.links === "object" && data.links !== null) {
+    Object.values(data.links).forEach(addStory);
+  }
+  addUuids(data?.rel_uuids);
+  addUuids(data?.link_uuids);
+  addEmbedded(data);
+
+  // A single-story path identifies the story even when the response has no body yet
+  const pathMatch = requestSlug ? /^\/?cdn\/stories\/(.+)$/.exec(requestSlug) : null;
+  if (pathMatch?.[1]) {
+    slugs.add(normalizeStorySlug(pathMatch[1]));
+  }
+
+  return { ids: [...ids], uuids: [...uuids], slugs: [...slugs] };
+}
+
+/**
+ * Collects the stories and tags of a cached value, unwrapping timestamped cache entries
+ *
+ * @param cached - A cache entry or a legacy raw response
+ * @returns The ids, uuids and full slugs of the contained stories, and the entry's tags
+ */
+export function extractEntryRefs(cached: unknown): StoryRefs {
+  if (!isCacheEntry(cached)) {
+    return extractStoryRefs(cached);
+  }
+  const refs = extractStoryRefs(cached.data, cached.slug);
+  return cached.tags?.length ? { ...refs, tags: cached.tags } : refs;
+}
+
+/**
+ * Maps story ids and slugs to the cache keys of the responses that contain them
+ */
+export class ReverseIndex {
+  private readonly refsByKey = new Map<string, StoryRefs>();
+  private readonly keysById = new Map<number, Set<string>>();
+  private readonly keysByUuid = new Map<string, Set<string>>();
+  private readonly keysBySlug = new Map<string, Set<string>>();
+  private readonly keysByTag = new Map<string, Set<string>>();
+
+  /**
+   * Number of indexed cache keys
+   */
+  get size(): number {
+    return this.refsByKey.size;
+  }
+
+  /**
+   * Indexes a cache key, replacing any previous references
+   *
+   * @param key - The cache key
+   * @param refs - The stories contained in the cached response
+   */
+  add(key: string, refs: StoryRefs): void {
+    this.remove(key);
+    this.refsByKey.set(key, refs);
+    refs.ids.forEach((id) => addToBucket(this.keysById, id, key));
+    refs.uuids.forEach((uuid) => addToBucket(this.keysByUuid, uuid, key));
+    refs.slugs.forEach((slug) => addToBucket(this.keysBySlug, slug, key));
+    refs.tags?.forEach((tag) => addToBucket(this.keysByTag, tag, key));
+  }
+
+  /**
+   * Removes a cache key from the index
+   *
+   * @param key - The cache key
+   */
+  remove(key: string): void {
+    const refs = this.refsByKey.get(key);
+    if (!refs) {
+      return;
+    }
+
+    this.refsByKey.delete(key);
+    refs.ids.forEach((id) => removeFromBucket(this.keysById, id, key));
+    refs.uuids.forEach((uuid) => removeFromBucket(this.keysByUuid, uuid, key));
+    refs.slugs.forEach((slug) => removeFromBucket(this.keysBySlug, slug, key));
+    refs.tags?.forEach((tag) => removeFromBucket(this.keysByTag, tag, key));
+  }
+
+  /**
+   * Finds the cache keys of responses containing a story, or written with a tag
+   *
+   * @param target - The story id, uuid, slug and/or tag to look up
+   * @returns The matching cache keys, sorted alphabetically
+   */
+  find(target: StoryTarget): string[] {
+    const keys = new Set<string>();
+
+    if (target.storyId !== undefined) {
+      this.keysById.get(target.storyId)?.forEach((key) => keys.add(key));
+    }
+    if (target.uuid !== undefined) {
+      this.keysByUuid.get(target.uuid)?.forEach((key) => keys.add(key));
+    }
+    if (target.slug !== undefined) {
+      this.keysBySlug.get(normalizeStorySlug(target.slug))?.forEach((key) => keys.add(key));
+    }
+    if (target.tag !== undefined) {
+      this.keysByTag.get(target.tag)?.forEach((key) => keys.add(key));
+    }
+
+    return [...keys].sort();
+  }
+
+  /**
+   * Removes all cache keys from the index
+   */
+  clear(): void {
+    this.refsByKey.clear();
+    this.keysById.clear();
+    this.keysByUuid.clear();
+    this.keysBySlug.clear();
+    this.keysByTag.clear();
+  }
+}
+
+function addToBucket<K>(buckets: Map<K, Set<string>>, bucket: K, key: string): void {
+  let keys = buckets.get(bucket);
+  if (!keys) {
+    keys = new Set();
+    buckets.set(bucket, keys);
+  }
+  keys.add(key);
+}
+
+function removeFromBucket<K>(buckets: Map<K, Set<string>>, bucket: K, key: string): void {
+  const keys = buckets.get(bucket);
+  keys?.delete(key);
+  if (keys?.size === 0) {
+    buckets.delete(bucket);
+  }
+}
+
+/**
+ * Reverse indexes of every cache directory or store that has been indexed in this process
+ */
+export const reverseIndexes = new Map<string | object, ReverseIndex>();
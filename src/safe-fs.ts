@@ -0,0 +1,179 @@
+import { randomBytes } from "node:crypto";
+import {
+  closeSync,
+  existsSync,
+  mkdirSync,
+  openSync,
+  readFileSync,
+  renameSync,
+  statSync,
+  unlinkSync,
+  writeFileSync,
+  writeSync,
+} from "node:fs";
+import { basename, dirname, join } from "node:path";
+import { CacheLockError } from "./errors.js";
+
+/**
+ * Name of the folder, inside a cache directory, that corrupted entries are moved to
+ */
+export const QUARANTINE_DIR = ".quarantine";
+
+/**
+ * Name of the lock file guarding a whole cache directory
+ */
+export const DIRECTORY_LOCK = ".lock";
+
+/**
+ * Configuration options for withFileLock
+ */
+export interface FileLockOptions {
+  /**
+   * Maximum time to wait for the lock in milliseconds
+   * @default 5000
+   */
+  timeout?: number;
+
+  /**
+   * Age in milliseconds after which a lock is considered abandoned and taken over
+   * @default 10000
+   */
+  stale?: number;
+}
+
+// Lets a synchronous lock wait without burning CPU
+const sleepBuffer = new Int32Array(new SharedArrayBuffer(4));
+
+function sleep(ms: number): void {
+  Atomics.wait(sleepBuffer, 0, 0, ms);
+}
+
+function isErrorCode(error: unknown, code: string): boolean {
+  return (error as NodeJS.ErrnoException | null)?.code === code;
+}
+
+function removeFile(path: string): void {
+  try {
+    unlinkSync(path);
+  } catch (error) {
+    if (!isErrorCode(error, "ENOENT")) {
+      throw error;
+    }
+  }
+}
+
+/**
+ * Checks whether a lock file was left behind by a crashed process or is older than allowed
+ */
+function isStaleLock(lockPath: string, stale: number): boolean {
+  try {
+    if (Date.now() - statSync(lockPath).mtimeMs >= stale) {
+      return true;
+    }
+
+    const pid = Number(readFileSync(lockPath, "utf-8"));
+    if (!Number.isInteger(pid) || pid <= 0 || pid === process.pid) {
+      return false;
+    }
+    // Signal 0 only checks whether the process exists
+    process.kill(pid, 0);
+    return false;
+  } catch (error) {
+    // ESRCH: the owner is gone. ENOENT: the lock was released meanwhile.
+    return isErrorCode(error, "ESRCH");
+  }
+}
+
+/**
+ * Runs a function while holding an advisory lock file, waiting for other
+ * processes that hold it
+ *
+ * The lock is a file created exclusively next to the guarded resource and
+ * containing the owner's pid. Locks whose owner has exited, or that are older
+ * than `stale`, are taken over.
+ *
+ * @param lockPath - Absolute path of the lock file
+ * @param fn - The function to run while the lock is held
+ * @param options - Timeout and staleness limits
+ * @returns The function's return value
+ * @throws CacheLockError if the lock could not be acquired within the timeout
+ */
+export function withFileLock<T>(
+  lockPath: string,
+  fn: () => T,
+  { timeout = 5000, stale = 10_000 }: FileLockOptions = {}
+): T {
+  const deadline = Date.now() + timeout;
+
+  for (;;) {
+    try {
+      const fd = openSync(lockPath, "wx");
+      writeSync(fd, String(process.pid));
+      closeSync(fd);
+      break;
+    } catch (error) {
+      if (!isErrorCode(error, "EEXIST")) {
+        throw error;
+      }
+    }
+
+    if (isStaleLock(lockPath, stale)) {
+      removeFile(lockPath);
+      continue;
+    }
+    if (Date.now() >= deadline) {
+      throw new CacheLockError(lockPath, timeout);
+    }
+    sleep(10);
+  }
+
+  try {
+    return fn();
+  } finally {
+    removeFile(lockPath);
+  }
+}
+
+/**
+ * Writes a file atomically by writing a temporary file next to it and renaming
+ * it over the target, so readers never see a partially written file
+ *
+ * @param path - Absolute path of the file to write
+ * @param content - The file content
+ */
+export function writeFileAtomic(path: string, content: string): void {
+  const tempPath = `${path}.${process.pid}.${randomBytes(4).toString("hex")}.tmp`;
+
+  try {
+    writeFileSync(tempPath, content, "utf-8");
+    renameSync(tempPath, path);
+  } catch (error) {
+    removeFile(tempPath);
+    throw error;
+  }
+}
+
+/**
+ * Moves a corrupted file into the quarantine folder of its directory
+ *
+ * @param path - Absolute path of the corrupted file
+ * @returns The path the file was moved to, or null if it no longer exists
+ */
+export function quarantineFile(path: string): string | null {
+  const quarantinePath = join(dirname(path), QUARANTINE_DIR);
+  if (!existsSync(quarantinePath)) {
+    mkdirSync(quarantinePath, { recursive: true });
+  }
+
+  // Prefixed with the time, so repeated corruption of one key keeps every copy
+  const target = join(quarantinePath, `${Date.now()}-${basename(path)}`);
+  try {
+    renameSync(path, target);
+    return target;
+  } catch (error) {
+    if (isErrorCode(error, "ENOENT")) {
+      return null;
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,211 @@
+import { createHash } from "node:crypto";
+import { existsSync, mkdirSync, readFileSync } from "node:fs";
+import { dirname, join, resolve } from "node:path";
+import { CACHE_DIR, clearCache, listCacheKeys, listNamespaces, writeCacheFile } from "./cache.js";
+import { SnapshotError } from "./errors.js";
+import { writeFileAtomic } from "./safe-fs.js";
+
+/**
+ * Identifies snapshot files written by exportSnapshot
+ */
+export const SNAPSHOT_FORMAT = "storyblok-cached-api/snapshot";
+
+/**
+ * Version of the snapshot file layout
+ */
+export const SNAPSHOT_VERSION = 1;
+
+/**
+ * Checksum record of a single cache file in a snapshot
+ */
+export interface SnapshotFile {
+  /**
+   * Path relative to the cache directory, including the namespace (e.g. `space/draft/key.json`)
+   */
+  path: string;
+
+  /**
+   * File size in bytes
+   */
+  size: number;
+
+  /**
+   * SHA-256 of the file content, hex encoded
+   */
+  sha256: string;
+}
+
+/**
+ * Layout of a snapshot file
+ */
+export interface Snapshot {
+  format: typeof SNAPSHOT_FORMAT;
+  version: typeof SNAPSHOT_VERSION;
+
+  /**
+   * Checksums of every file, sorted by path
+   */
+  files: SnapshotFile[];
+
+  /**
+   * File contents by path, exactly as they were on disk
+   */
+  entries: Record<string, string>;
+}
+
+/**
+ * Configuration options for exportSnapshot and importSnapshot
+ */
+export interface SnapshotOptions {
+  /**
+   * Directory path for cache storage
+   * @default '.sb-dev-cache'
+   */
+  cacheDir?: string;
+}
+
+/**
+ * Outcome of an export or import
+ */
+export interface SnapshotSummary {
+  /**
+   * Number of cache entries in the snapshot
+   */
+  entries: number;
+
+  /**
+   * Total size of the cache entries in bytes
+   */
+  bytes: number;
+}
+
+// Entry paths may not leave the cache directory or touch dot-files such as the manifest
+const ENTRY_PATH = /^(?:[^./][^/]*\/)*[^./][^/]*\.json$/;
+
+function sha256(content: string): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+/**
+ * Bundles every cache entry in a cache directory, including all namespaces,
+ * into a single snapshot file with a checksum for each entry
+ *
+ * Snapshots of the same cache contents are identical, so they can be committed
+ * and diffed.
+ *
+ * @param file - Path of the snapshot file to write
+ * @param options - The cache directory to export
+ * @returns The number and total size of the exported entries
+ *
+ * @example
+ * ```typescript
+ * import { exportSnapshot } from 'storyblok-cached-api';
+ *
+ * // After the release build has filled the cache
+ * exportSnapshot('snapshots/release-1.4.0.json');
+ * ```
+ */
+export function exportSnapshot(file: string, options: SnapshotOptions = {}): SnapshotSummary {
+  const { cacheDir = CACHE_DIR } = options;
+  const snapshot: Snapshot = { format: SNAPSHOT_FORMAT, version: SNAPSHOT_VERSION, files: [], entries: {} };
+
+  ["", ...listNamespaces(cacheDir)].forEach((namespace) => {
+    const dir = namespace === "" ? cacheDir : join(cacheDir, namespace);
+    listCacheKeys(dir).forEach((key) => {
+      const path = namespace === "" ? key : `${namespace}/${key}`;
+      const content = readFileSync(join(process.cwd(), dir, key), "utf-8");
+      snapshot.files.push({ path, size: Buffer.byteLength(content), sha256: sha256(content) });
+      snapshot.entries[path] = content;
+    });
+  });
+  snapshot.files.sort((a, b) => a.path.localeCompare(b.path));
+
+  const target = resolve(file);
+  mkdirSync(dirname(target), { recursive: true });
+  writeFileAtomic(target, JSON.stringify(snapshot, null, 2));
+
+  return {
+    entries: snapshot.files.length,
+    bytes: snapshot.files.reduce((total, { size }) => total + size, 0),
+  };
+}
+
+/**
+ * Reads a snapshot file and checks its format, version and every checksum
+ */
+function readSnapshot(file: string): Snapshot {
+  if (!existsSync(resolve(file))) {
+    throw new SnapshotError(file, "file not found");
+  }
+
+  let snapshot: Partial<Snapshot>;
+  try {
+    snapshot = JSON.parse(readFileSync(resolve(file), "utf-8")) as Partial<Snapshot>;
+  } catch {
+    throw new SnapshotError(file, "not valid JSON");
+  }
+
+  if (snapshot.format !== SNAPSHOT_FORMAT) {
+    throw new SnapshotError(file, "not a storyblok-cached-api snapshot");
+  }
+  if (snapshot.version !== SNAPSHOT_VERSION) {
+    throw new SnapshotError(file, `unsupported version ${String(snapshot.version)}`);
+  }
+
+  const files = snapshot.files ?? [];
+  const entries = snapshot.entries ?? {};
+  files.forEach(({ path, sha256: checksum }) => {
+    if (!ENTRY_PATH.test(path)) {
+      throw new SnapshotError(file, `invalid entry path ${path}`);
+    }
+    const content = entries[path];
+    if (content === undefined) {
+      throw new SnapshotError(file, `missing entry ${path}`);
+    }
+    if (sha256(content) !== checksum) {
+      throw new SnapshotError(file, `checksum mismatch for ${path}`);
+    }
+  });
+  if (Object.keys(entries).length !== files.length) {
+    throw new SnapshotError(file, "entries without a checksum");
+  }
+
+  return { format: SNAPSHOT_FORMAT, version: SNAPSHOT_VERSION, files, entries };
+}
+
+/**
+ * Replaces the contents of a cache directory with the entries of a snapshot,
+ * byte for byte
+ *
+ * Every checksum is verified before anything is written, so a damaged snapshot
+ * leaves the cache untouched.
+ *
+ * @param file - Path of the snapshot file to read
+ * @param options - The cache directory to import into
+ * @returns The number and total size of the imported entries
+ * @throws SnapshotError if the file is not a valid snapshot or a checksum does not match
+ *
+ * @example
+ * ```typescript
+ * import { importSnapshot } from 'storyblok-cached-api';
+ *
+ * importSnapshot('snapshots/release-1.4.0.json');
+ * ```
+ */
+export function importSnapshot(file: string, options: SnapshotOptions = {}): SnapshotSummary {
+  const { cacheDir = CACHE_DIR } = options;
+  const snapshot = readSnapshot(file);
+
+  clearCache(cacheDir);
+  snapshot.files.forEach(({ path }) => {
+    const separator = path.lastIndexOf("/");
+    const dir = separator === -1 ? cacheDir : join(cacheDir, path.slice(0, separator));
+    mkdirSync(join(process.cwd(), dir), { recursive: true });
+    writeCacheFile(path.slice(separator + 1), snapshot.entries[path] as string, dir);
+  });
+
+  return {
+    entries: snapshot.files.length,
+    bytes: snapshot.files.reduce((total, { size }) => total + size, 0),
+  };
+}
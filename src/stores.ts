@@ -0,0 +1,105 @@
+import { CACHE_DIR, readFromCache, writeToCache, deleteFromCache, listCacheKeys, clearCache } from "./cache.js";
+import type { CacheLogger } from "./logger.js";
+
+/**
+ * Storage backend for cache entries
+ *
+ * Implement this interface to keep the cache somewhere other than the local
+ * filesystem (e.g. a KV store in edge or serverless builds).
+ */
+export interface CacheStore {
+  /**
+   * Reads an entry
+   * @returns The stored value or null if not found
+   */
+  get<T = unknown>(key: string): Promise<T | null>;
+
+  /**
+   * Writes an entry, replacing any existing value
+   */
+  set<T = unknown>(key: string, value: T): Promise<void>;
+
+  /**
+   * Deletes an entry
+   * @returns True if the entry existed
+   */
+  delete(key: string): Promise<boolean>;
+
+  /**
+   * Lists the keys of all stored entries
+   */
+  list(): Promise<string[]>;
+
+  /**
+   * Deletes all entries
+   * @returns Number of entries deleted
+   */
+  clear(): Promise<number>;
+}
+
+/**
+ * Cache store backed by JSON files in a directory (the default)
+ */
+export class FileSystemStore implements CacheStore {
+  /**
+   * @param cacheDir - Directory path for cache storage, relative to the working directory
+   * @param verbose - Enable console logging for cache operations, or a logger to log through
+   */
+  constructor(
+    readonly cacheDir: string = CACHE_DIR,
+    private readonly verbose: boolean | CacheLogger = true
+  ) {}
+
+  async get<T = unknown>(key: string): Promise<T | null> {
+    return readFromCache<T>(key, this.cacheDir, this.verbose);
+  }
+
+  async set<T = unknown>(key: string, value: T): Promise<void> {
+    writeToCache(key, value, this.cacheDir, this.verbose);
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return deleteFromCache(key, this.cacheDir);
+  }
+
+  async list(): Promise<string[]> {
+    return listCacheKeys(this.cacheDir);
+  }
+
+  async clear(): Promise<number> {
+    return clearCache(this.cacheDir);
+  }
+}
+
+/**
+ * Cache store that keeps entries in process memory
+ *
+ * Values are serialized on write, so reads return fresh copies just like the
+ * filesystem store. Useful for tests and environments without a writable disk.
+ */
+export class MemoryStore implements CacheStore {
+  private readonly entries = new Map<string, string>();
+
+  async get<T = unknown>(key: string): Promise<T | null> {
+    const content = this.entries.get(key);
+    return content === undefined ? null : (JSON.parse(content) as T);
+  }
+
+  async set<T = unknown>(key: string, value: T): Promise<void> {
+    this.entries.set(key, JSON.stringify(value));
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return this.entries.delete(key);
+  }
+
+  async list(): Promise<string[]> {
+    return [...this.entries.keys()].sort();
+  }
+
+  async clear(): Promise<number> {
+    const count = this.entries.size;
+    this.entries.clear();
+    return count;
+  }
+}
@@ -0,0 +1,114 @@
+import type { DevToolbarApp } from "astro";
+import { defineToolbarApp } from "astro/toolbar";
+import { TOOLBAR_EVENTS } from "./toolbar-events.js";
+import type { PageEntries, PageEntry, PageRequest, RefreshRequest } from "./toolbar-events.js";
+
+const SOURCE_STYLES = {
+  memory: "purple",
+  store: "green",
+  api: "yellow",
+} as const;
+
+const STYLES = `
+  header { display: flex; align-items: center; gap: 8px; margin-bottom: 12px; }
+  h1 { flex: 1; margin: 0; font-size: 18px; }
+  ul { list-style: none; margin: 0; padding: 0; max-height: 60vh; overflow-y: auto; }
+  li { display: flex; align-items: center; gap: 8px; padding: 6px 0; border-top: 1px solid rgba(255, 255, 255, 0.1); }
+  .request { flex: 1; min-width: 0; }
+  .slug { font-family: monospace; word-break: break-all; }
+  .params { font-size: 12px; opacity: 0.7; word-break: break-all; }
+  p { margin: 0; opacity: 0.7; }
+`;
+
+/**
+ * Dev toolbar app listing the Storyblok requests of the current page, with
+ * buttons to refetch them or clear the cache
+ */
+const toolbarApp: DevToolbarApp = defineToolbarApp({
+  init(canvas, app, server) {
+    const doc = canvas.ownerDocument;
+    const pathname = () => doc.location.pathname;
+
+    const createButton = (label: string, onClick: () => void) => {
+      const button = doc.createElement("astro-dev-toolbar-button");
+      button.size = "small";
+      button.buttonStyle = "outline";
+      button.textContent = label;
+      button.addEventListener("click", onClick);
+      return button;
+    };
+
+    const refresh = (ids?: string[]) => {
+      server.send<RefreshRequest>(TOOLBAR_EVENTS.refresh, { pathname: pathname(), ...(ids && { ids }) });
+    };
+
+    const panel = doc.createElement("astro-dev-toolbar-window");
+    const style = doc.createElement("style");
+    style.textContent = STYLES;
+
+    const header = doc.createElement("header");
+    const title = doc.createElement("h1");
+    title.textContent = "Storyblok cache";
+    header.append(
+      title,
+      createButton("Refresh page", () => refresh()),
+      createButton("Clear cache", () => server.send<Record<string, never>>(TOOLBAR_EVENTS.clear, {}))
+    );
+
+    const list = doc.createElement("ul");
+    panel.append(style, header, list);
+    canvas.append(panel);
+
+    const renderEntry = (entry: PageEntry) => {
+      const item = doc.createElement("li");
+      const request = doc.createElement("div");
+      request.className = "request";
+
+      const slug = doc.createElement("div");
+      slug.className = "slug";
+      slug.textContent = entry.namespace ? `${entry.slug} (${entry.namespace})` : entry.slug;
+      request.append(slug);
+
+      if (entry.params && Object.keys(entry.params).length > 0) {
+        const params = doc.createElement("div");
+        params.className = "params";
+        params.textContent = JSON.stringify(entry.params);
+        request.append(params);
+      }
+
+      const badge = doc.createElement("astro-dev-toolbar-badge");
+      badge.size = "small";
+      badge.badgeStyle = SOURCE_STYLES[entry.source];
+      badge.textContent = entry.source;
+
+      item.append(request, badge, createButton("Refresh", () => refresh([entry.id])));
+      return item;
+    };
+
+    server.on<PageEntries>(TOOLBAR_EVENTS.entries, ({ pathname: page, entries }) => {
+      if (page !== pathname()) {
+        return;
+      }
+      if (entries.length === 0) {
+        const empty = doc.createElement("p");
+        empty.textContent = "No Storyblok requests went through the cache on this page.";
+        list.replaceChildren(empty);
+        return;
+      }
+      list.replaceChildren(...entries.map(renderEntry));
+    });
+
+    const requestEntries = () => {
+      server.send<PageRequest>(TOOLBAR_EVENTS.list, { pathname: pathname() });
+    };
+
+    requestEntries();
+    app.onToggled(({ state }) => {
+      if (state) {
+        requestEntries();
+      }
+    });
+  },
+});
+
+export default toolbarApp;
@@ -0,0 +1,75 @@
+/**
+ * Id of the dev toolbar app added by the Astro integration
+ */
+export const TOOLBAR_APP_ID = "storyblok-cached-api";
+
+/**
+ * Messages exchanged between the dev toolbar app and the dev server
+ *
+ * - `list`: the app asks for the entries of a page
+ * - `entries`: the server answers with them
+ * - `refresh`: the app asks to refetch entries of a page, or all of them
+ * - `clear`: the app asks to clear every cache directory in use
+ */
+export const TOOLBAR_EVENTS = {
+  list: "storyblok-cache:list",
+  entries: "storyblok-cache:entries",
+  refresh: "storyblok-cache:refresh",
+  clear: "storyblok-cache:clear",
+} as const;
+
+/**
+ * A cache entry used while rendering a page
+ */
+export interface PageEntry {
+  /**
+   * The cache key, prefixed with the namespace if there is one (e.g. `staging/draft/<key>`)
+   */
+  id: string;
+
+  /**
+   * The cache key of the request
+   */
+  cacheKey: string;
+
+  /**
+   * The namespace inside the cache directory, if any
+   */
+  namespace?: string;
+
+  /**
+   * The Storyblok path that was requested
+   */
+  slug: string;
+
+  /**
+   * The request parameters, without the access token
+   */
+  params?: Record<string, unknown>;
+
+  /**
+   * Where the response came from on the last render
+   */
+  source: "memory" | "store" | "api";
+}
+
+/**
+ * Identifies the page the toolbar app is open on
+ */
+export interface PageRequest {
+  pathname: string;
+}
+
+/**
+ * The entries used by a page, sent to the toolbar app
+ */
+export interface PageEntries extends PageRequest {
+  entries: PageEntry[];
+}
+
+/**
+ * Entries of a page to refetch; all of them when `ids` is omitted
+ */
+export interface RefreshRequest extends PageRequest {
+  ids?: string[];
+}
@@ -0,0 +1,189 @@
+import type { ISbStoryParams, Storyblok as StoryblokClient } from "storyblok-js-client";
+
+/**
+ * Progress reported after each story has been fetched
+ */
+export interface WarmCacheProgress {
+  /**
+   * Number of stories to fetch
+   */
+  total: number;
+
+  /**
+   * Number of stories fetched so far, including failures
+   */
+  completed: number;
+
+  /**
+   * Number of stories that could not be fetched so far
+   */
+  failed: number;
+
+  /**
+   * The slug of the story that was just fetched
+   */
+  slug: string;
+
+  /**
+   * The error, if the story could not be fetched
+   */
+  error?: unknown;
+}
+
+/**
+ * Configuration options for warmCache
+ */
+export interface WarmCacheOptions {
+  /**
+   * The cached API to fetch through, usually from createCachedClient() or useCachedStoryblokApi()
+   */
+  api: Pick<StoryblokClient, "get">;
+
+  /**
+   * Parameters used for every story request (e.g. version, resolve_relations, language).
+   * `version` is also used when listing links.
+   * @default {}
+   */
+  params?: ISbStoryParams;
+
+  /**
+   * Only warm stories whose full slug starts with this prefix
+   */
+  startsWith?: string;
+
+  /**
+   * Maximum number of story requests in flight at once
+   * @default 4
+   */
+  concurrency?: number;
+
+  /**
+   * Number of links requested per page of cdn/links
+   * @default 1000
+   */
+  perPage?: number;
+
+  /**
+   * Called after each story has been fetched
+   */
+  onProgress?: (progress: WarmCacheProgress) => void;
+}
+
+/**
+ * Outcome of a warmCache run
+ */
+export interface WarmCacheResult {
+  /**
+   * Number of stories found in the space
+   */
+  total: number;
+
+  /**
+   * Number of stories fetched successfully
+   */
+  fetched: number;
+
+  /**
+   * Stories that could not be fetched
+   */
+  failed: Array<{ slug: string; error: unknown }>;
+}
+
+interface StoryLink {
+  slug: string;
+  is_folder: boolean;
+}
+
+/**
+ * Lists the slugs of every story in the space, following cdn/links pagination
+ *
+ * @param options - The API to fetch through and link listing options
+ * @returns The story slugs, excluding folders
+ */
+async function listStorySlugs(
+  { api, params = {}, startsWith, perPage = 1000 }: WarmCacheOptions
+): Promise<string[]> {
+  const slugs: string[] = [];
+  let page = 1;
+
+  for (;;) {
+    const result = await api.get("cdn/links", {
+      ...(params.version !== undefined && { version: params.version }),
+      ...(startsWith !== undefined && { starts_with: startsWith }),
+      page,
+      per_page: perPage,
+    });
+    const links = Object.values((result.data?.links ?? {}) as Record<string, StoryLink>);
+
+    links.forEach((link) => {
+      if (!link.is_folder) {
+        slugs.push(link.slug);
+      }
+    });
+
+    // Stop on a short page, or once the reported total has been reached
+    if (links.length < perPage || page * perPage >= Number(result.total)) {
+      return slugs;
+    }
+    page++;
+  }
+}
+
+/**
+ * Fetches every story in the space through the cached API, so the whole space
+ * is on disk before the first page load
+ *
+ * @param options - Warm-up options, including the cached API to fetch through
+ * @returns The number of stories fetched and the ones that failed
+ *
+ * @example
+ * ```typescript
+ * import { useCachedStoryblokApi, warmCache } from 'storyblok-cached-api/astro';
+ *
+ * const result = await warmCache({
+ *   api: useCachedStoryblokApi({ enableCache: true }),
+ *   params: { version: 'draft', resolve_relations: 'article.author' },
+ *   concurrency: 8,
+ *   onProgress: ({ completed, total }) => console.log(`${completed}/${total}`)
+ * });
+ * ```
+ */
+export async function warmCache(options: WarmCacheOptions): Promise<WarmCacheResult> {
+  const { api, params = {}, concurrency = 4, onProgress } = options;
+
+  const slugs = await listStorySlugs(options);
+  const failed: WarmCacheResult["failed"] = [];
+  let next = 0;
+  let completed = 0;
+
+  // Each worker pulls the next slug until none are left
+  const worker = async () => {
+    while (next < slugs.length) {
+      const slug = slugs[next++] as string;
+      let error: unknown;
+
+      try {
+        // Copied per request: the client writes `resolve_level` into its params
+        await api.get(`cdn/stories/${slug}`, { ...params });
+      } catch (caught) {
+        error = caught;
+        failed.push({ slug, error });
+      }
+
+      completed++;
+      onProgress?.({
+        total: slugs.length,
+        completed,
+        failed: failed.length,
+        slug,
+        ...(error !== undefined && { error }),
+      });
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.max(1, Math.min(concurrency, slugs.length)) }, worker)
+  );
+
+  return { total: slugs.length, fetched: slugs.length - failed.length, failed };
+}
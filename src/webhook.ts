@@ -0,0 +1,136 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { invalidateEntries } from "./invalidation.js";
+import type { InvalidationOptions } from "./invalidation.js";
+import { resolveLogger } from "./logger.js";
+
+/**
+ * Configuration options for the webhook handler
+ */
+export interface WebhookOptions extends InvalidationOptions {
+  /**
+   * The webhook secret configured in Storyblok. Requests without a matching
+   * `webhook-signature` header are rejected, and so is every request while
+   * the secret is missing, unless `verify` is false.
+   */
+  secret?: string;
+
+  /**
+   * Set to false to accept unsigned requests, e.g. on a local network without a secret
+   * @default true
+   */
+  verify?: boolean;
+}
+
+/**
+ * The fields of a Storyblok story webhook payload used for invalidation
+ */
+export interface StoryblokWebhookPayload {
+  action?: string;
+  text?: string;
+  space_id?: number;
+  story_id?: number;
+  full_slug?: string;
+}
+
+/**
+ * Verifies the HMAC-SHA1 signature Storyblok sends in the `webhook-signature` header
+ *
+ * @param body - The raw request body
+ * @param signature - The value of the `webhook-signature` header
+ * @param secret - The webhook secret configured in Storyblok
+ * @returns True if the signature matches
+ */
+export function verifyWebhookSignature(
+  body: string,
+  signature: string | null | undefined,
+  secret: string
+): boolean {
+  if (!signature) {
+    return false;
+  }
+
+  const expected = Buffer.from(createHmac("sha1", secret).update(body).digest("hex"));
+  const received = Buffer.from(signature);
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+function json(body: unknown, status: number): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "content-type": "application/json" },
+  });
+}
+
+/**
+ * Handles a Storyblok webhook request by deleting every cached entry of the affected story
+ *
+ * @param request - The incoming webhook request
+ * @param options - The webhook secret and the cache to invalidate entries in
+ * @returns A JSON response listing the invalidated cache keys
+ */
+export async function handleWebhook(request: Request, options: WebhookOptions = {}): Promise<Response> {
+  if (request.method !== "POST") {
+    return json({ error: "Method not allowed" }, 405);
+  }
+
+  const { secret, verify = true } = options;
+
+  // A missing secret (e.g. an unset environment variable) must not turn verification off
+  if (verify && !secret) {
+    resolveLogger(options.verbose, options.logger).warn(
+      "[Cache] Webhook rejected: no secret configured. Pass `secret`, or `verify: false` to accept unsigned requests."
+    );
+    return json({ error: "Webhook secret not configured" }, 500);
+  }
+
+  const body = await request.text();
+
+  if (verify && !verifyWebhookSignature(body, request.headers.get("webhook-signature"), secret as string)) {
+    return json({ error: "Invalid signature" }, 401);
+  }
+
+  let payload: StoryblokWebhookPayload;
+  try {
+    payload = JSON.parse(body) as StoryblokWebhookPayload;
+  } catch {
+    return json({ error: "Invalid JSON payload" }, 400);
+  }
+
+  // Non-story events (e.g. datasource or asset changes) carry neither field
+  if (payload.story_id === undefined && payload.full_slug === undefined) {
+    return json({ action: payload.action, invalidated: [] }, 200);
+  }
+
+  const invalidated = await invalidateEntries(
+    { storyId: payload.story_id, slug: payload.full_slug },
+    options
+  );
+
+  resolveLogger(options.verbose, options.logger).log(
+    `[Cache] Webhook ${payload.action ?? "event"} for ${payload.full_slug ?? payload.story_id}: ` +
+    `${invalidated.length} entries invalidated`
+  );
+
+  return json({ action: payload.action, invalidated }, 200);
+}
+
+/**
+ * Creates a webhook endpoint for use as an Astro API route
+ *
+ * @param options - The webhook secret and the cache to invalidate entries in
+ * @returns An API route handler
+ *
+ * @example
+ * ```typescript
+ * // src/pages/api/storyblok-webhook.ts
+ * import { createWebhookHandler } from 'storyblok-cached-api';
+ *
+ * export const prerender = false;
+ * export const POST = createWebhookHandler({
+ *   secret: import.meta.env.STORYBLOK_WEBHOOK_SECRET
+ * });
+ * ```
+ */
+export function createWebhookHandler(options: WebhookOptions = {}) {
+  return ({ request }: { request: Request }) => handleWebhook(request, options);
+}
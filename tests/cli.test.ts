@@ -0,0 +1,356 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { existsSync, mkdirSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { generateCacheKey, listCacheKeys, writeToCache } from "../src/cache";
+import { runCli, parseDuration, formatBytes, formatAge, inspectCache } from "../src/cli";
+import { listCacheEntries } from "../src/manifest";
+
+const TEST_CACHE_DIR = ".test-cache-cli";
+const TEST_CACHE_PATH = join(process.cwd(), TEST_CACHE_DIR);
+
+function createIO() {
+  const output: string[] = [];
+  const errors: string[] = [];
+  return {
+    output,
+    errors,
+    io: {
+      log: (message: string) => output.push(message),
+      error: (message: string) => errors.push(message),
+    },
+  };
+}
+
+function writeEntry(slug: string, params: Record<string, unknown> | undefined, age: number) {
+  writeToCache(
+    generateCacheKey(slug, params),
+    { timestamp: Date.now() - age, slug, params, data: { data: { story: { full_slug: slug } } } },
+    TEST_CACHE_DIR,
+    false
+  );
+}
+
+describe("parseDuration", () => {
+  it("should parse units", () => {
+    expect(parseDuration("500ms")).toBe(500);
+    expect(parseDuration("30s")).toBe(30_000);
+    expect(parseDuration("15m")).toBe(900_000);
+    expect(parseDuration("12h")).toBe(43_200_000);
+    expect(parseDuration("7d")).toBe(604_800_000);
+  });
+
+  it("should read bare numbers as milliseconds", () => {
+    expect(parseDuration("250")).toBe(250);
+  });
+
+  it("should reject invalid durations", () => {
+    expect(() => parseDuration("soon")).toThrow("Invalid duration: soon");
+  });
+});
+
+describe("formatBytes", () => {
+  it("should format sizes", () => {
+    expect(formatBytes(512)).toBe("512 B");
+    expect(formatBytes(2048)).toBe("2.0 KB");
+    expect(formatBytes(3 * 1024 * 1024)).toBe("3.0 MB");
+  });
+});
+
+describe("formatAge", () => {
+  it("should format ages", () => {
+    expect(formatAge(42_000)).toBe("42s");
+    expect(formatAge(5 * 60_000)).toBe("5m");
+    expect(formatAge(3 * 3_600_000)).toBe("3h");
+    expect(formatAge(2 * 86_400_000)).toBe("2d");
+  });
+});
+
+describe("storyblok-cache", () => {
+  beforeEach(() => {
+    if (existsSync(TEST_CACHE_PATH)) {
+      rmSync(TEST_CACHE_PATH, { recursive: true });
+    }
+    mkdirSync(TEST_CACHE_PATH, { recursive: true });
+  });
+
+  afterEach(() => {
+    if (existsSync(TEST_CACHE_PATH)) {
+      rmSync(TEST_CACHE_PATH, { recursive: true });
+    }
+  });
+
+  it("should print usage without a command", () => {
+    const { io, output } = createIO();
+
+    expect(runCli([], io)).toBe(1);
+    expect(output[0]).toContain("Usage: storyblok-cache");
+  });
+
+  it("should reject unknown commands", () => {
+    const { io, errors } = createIO();
+
+    expect(runCli(["explode"], io)).toBe(1);
+    expect(errors[0]).toContain("Unknown command: explode");
+  });
+
+  describe("inspectCache", () => {
+    it("should recover slugs of legacy and corrupted files from the filename", () => {
+      const key = generateCacheKey("cdn/stories/home");
+      writeFileSync(join(TEST_CACHE_PATH, key), "{ invalid", "utf-8");
+
+      expect(inspectCache(TEST_CACHE_DIR)).toEqual([
+        expect.objectContaining({ key, slug: "cdn/stories/home", corrupted: true }),
+      ]);
+    });
+  });
+
+  it("should not count inspecting entries as reads", () => {
+    writeEntry("cdn/stories/home", { version: "draft" }, 0);
+    const accessedAt = listCacheEntries({}, TEST_CACHE_DIR)[0]?.accessedAt;
+    vi.spyOn(Date, "now").mockReturnValue(Date.now() + 60_000);
+    const { io } = createIO();
+
+    runCli(["list", "--dir", TEST_CACHE_DIR], io);
+    runCli(["show", "cdn/stories/home", "--dir", TEST_CACHE_DIR], io);
+    runCli(["stats", "--dir", TEST_CACHE_DIR], io);
+    vi.restoreAllMocks();
+
+    expect(listCacheEntries({}, TEST_CACHE_DIR)[0]?.accessedAt).toBe(accessedAt);
+  });
+
+  describe("list", () => {
+    it("should list slug, params, age and size per entry", () => {
+      writeEntry("cdn/stories/home", { version: "draft" }, 5 * 60_000);
+      const { io, output } = createIO();
+
+      expect(runCli(["list", "--dir", TEST_CACHE_DIR], io)).toBe(0);
+      expect(output[0]).toMatch(/^AGE\s+SIZE\s+SLUG\s+PARAMS$/);
+      expect(output[1]).toMatch(/^5m\s+\d+ B\s+cdn\/stories\/home\s+\{"version":"draft"\}$/);
+    });
+
+    it("should report an empty cache", () => {
+      const { io, output } = createIO();
+
+      runCli(["list", "--dir", TEST_CACHE_DIR], io);
+
+      expect(output).toEqual([`No cached entries in ${TEST_CACHE_DIR}`]);
+    });
+  });
+
+  describe("show", () => {
+    it("should print every cached response for a slug", () => {
+      writeEntry("cdn/stories/home", { version: "draft" }, 0);
+      writeEntry("cdn/stories/home", { version: "published" }, 0);
+      writeEntry("cdn/stories/about", undefined, 0);
+      const { io, output } = createIO();
+
+      expect(runCli(["show", "/cdn/stories/home", "--dir", TEST_CACHE_DIR], io)).toBe(0);
+      expect(output.filter((line) => line.startsWith("# "))).toHaveLength(2);
+    });
+
+    it("should locate a single entry by params", () => {
+      writeEntry("cdn/stories/home", { version: "draft" }, 0);
+      const { io, output } = createIO();
+
+      const code = runCli(
+        ["show", "cdn/stories/home", "--params", '{"version":"draft"}', "--dir", TEST_CACHE_DIR],
+        io
+      );
+
+      expect(code).toBe(0);
+      expect(JSON.parse(output[0] ?? "")).toMatchObject({ slug: "cdn/stories/home" });
+    });
+
+    it("should fail when nothing is cached for the slug", () => {
+      const { io, errors } = createIO();
+
+      expect(runCli(["show", "cdn/stories/missing", "--dir", TEST_CACHE_DIR], io)).toBe(1);
+      expect(errors[0]).toContain("No cached entries for cdn/stories/missing");
+    });
+  });
+
+  describe("clear", () => {
+    it("should delete everything without filters", () => {
+      writeEntry("cdn/stories/home", undefined, 0);
+      writeEntry("cdn/stories/about", undefined, 0);
+      const { io } = createIO();
+
+      runCli(["clear", "--dir", TEST_CACHE_DIR], io);
+
+      expect(listCacheKeys(TEST_CACHE_DIR)).toEqual([]);
+    });
+
+    it("should only delete entries matching the slug prefix and age", () => {
+      writeEntry("cdn/stories/blog/old", undefined, 10 * 86_400_000);
+      writeEntry("cdn/stories/blog/new", undefined, 0);
+      writeEntry("cdn/stories/home", undefined, 10 * 86_400_000);
+      const { io, output } = createIO();
+
+      runCli(
+        ["clear", "--slug-prefix", "cdn/stories/blog", "--older-than", "7d", "--dir", TEST_CACHE_DIR],
+        io
+      );
+
+      expect(output).toEqual([`Deleted 1 cache files from ${TEST_CACHE_DIR}`]);
+      expect(listCacheKeys(TEST_CACHE_DIR)).toEqual(
+        [generateCacheKey("cdn/stories/blog/new"), generateCacheKey("cdn/stories/home")].sort()
+      );
+    });
+
+    it("should report invalid durations", () => {
+      const { io, errors } = createIO();
+
+      expect(runCli(["clear", "--older-than", "later", "--dir", TEST_CACHE_DIR], io)).toBe(1);
+      expect(errors).toEqual(["Invalid duration: later"]);
+    });
+  });
+
+  describe("prune", () => {
+    it("should delete corrupted entries", () => {
+      writeEntry("cdn/stories/home", undefined, 0);
+      writeFileSync(join(TEST_CACHE_PATH, "broken__0123456789abcdef.json"), "{", "utf-8");
+      const { io } = createIO();
+
+      runCli(["prune", "--dir", TEST_CACHE_DIR], io);
+
+      expect(listCacheKeys(TEST_CACHE_DIR)).toEqual([generateCacheKey("cdn/stories/home")]);
+    });
+
+    it("should delete quarantined entries", () => {
+      mkdirSync(join(TEST_CACHE_PATH, ".quarantine"));
+      writeFileSync(join(TEST_CACHE_PATH, ".quarantine", "1-broken.json"), "{", "utf-8");
+      const { io, output } = createIO();
+
+      runCli(["prune", "--dir", TEST_CACHE_DIR], io);
+
+      expect(existsSync(join(TEST_CACHE_PATH, ".quarantine"))).toBe(false);
+      expect(output).toContain(`Pruned 1 cache files from ${TEST_CACHE_DIR}`);
+    });
+
+    it("should delete expired entries with --ttl", () => {
+      writeEntry("cdn/stories/home", undefined, 2 * 3_600_000);
+      writeEntry("cdn/stories/about", undefined, 0);
+      const { io } = createIO();
+
+      runCli(["prune", "--ttl", "1h", "--dir", TEST_CACHE_DIR], io);
+
+      expect(listCacheKeys(TEST_CACHE_DIR)).toEqual([generateCacheKey("cdn/stories/about")]);
+    });
+  });
+
+  describe("namespaces", () => {
+    it("should list namespaces with their entry counts", () => {
+      writeToCache("a.json", {}, join(TEST_CACHE_DIR, "staging/draft"), false);
+      writeToCache("b.json", {}, join(TEST_CACHE_DIR, "staging/draft"), false);
+      const { io, output } = createIO();
+
+      expect(runCli(["namespaces", "--dir", TEST_CACHE_DIR], io)).toBe(0);
+      expect(output).toEqual(["staging/draft  2 entries"]);
+    });
+
+    it("should include entries of every namespace", () => {
+      writeEntry("cdn/stories/home", undefined, 0);
+      writeToCache(
+        generateCacheKey("cdn/stories/home", { version: "draft" }),
+        { timestamp: Date.now(), slug: "cdn/stories/home", params: { version: "draft" }, data: {} },
+        join(TEST_CACHE_DIR, "a1b2c3d4e5f6/draft"),
+        false
+      );
+      const { io, output } = createIO();
+
+      runCli(["list", "--dir", TEST_CACHE_DIR], io);
+      runCli(["stats", "--dir", TEST_CACHE_DIR], io);
+      runCli(["show", "cdn/stories/home", "--params", '{"version":"draft"}', "--dir", TEST_CACHE_DIR], io);
+
+      expect(output[0]).toMatch(/^AGE\s+SIZE\s+NAMESPACE\s+SLUG\s+PARAMS$/);
+      expect(output[1]).toMatch(/^0s\s+\d+ B\s+cdn\/stories\/home$/);
+      expect(output[2]).toMatch(/^0s\s+\d+ B\s+a1b2c3d4e5f6\/draft\s+cdn\/stories\/home\s+\{"version":"draft"\}$/);
+      expect(output).toContain("Entries:   2");
+      expect(JSON.parse(output[output.length - 1] ?? "")).toMatchObject({ params: { version: "draft" } });
+    });
+
+    it("should only look at the given namespace", () => {
+      writeEntry("cdn/stories/blog/top", undefined, 0);
+      const blogPost = generateCacheKey("cdn/stories/blog/post");
+      const entry = { timestamp: 0, slug: "cdn/stories/blog/post", data: {} };
+      writeToCache(blogPost, entry, join(TEST_CACHE_DIR, "a1b2c3d4e5f6/draft"), false);
+      writeToCache(blogPost, entry, join(TEST_CACHE_DIR, "a1b2c3d4e5f6/published"), false);
+      const { io, output } = createIO();
+
+      runCli(
+        ["clear", "--slug-prefix", "cdn/stories/blog", "--namespace", "a1b2c3d4e5f6/draft", "--dir", TEST_CACHE_DIR],
+        io
+      );
+
+      expect(output).toEqual([`Deleted 1 cache files from ${join(TEST_CACHE_DIR, "a1b2c3d4e5f6/draft")}`]);
+      expect(listCacheKeys(join(TEST_CACHE_DIR, "a1b2c3d4e5f6/draft"))).toEqual([]);
+      expect(listCacheKeys(join(TEST_CACHE_DIR, "a1b2c3d4e5f6/published"))).toEqual([blogPost]);
+      expect(listCacheKeys(TEST_CACHE_DIR)).toEqual([generateCacheKey("cdn/stories/blog/top")]);
+    });
+
+    it("should prune corrupted entries inside namespaces", () => {
+      writeToCache("a.json", { timestamp: Date.now(), data: {} }, join(TEST_CACHE_DIR, "staging/draft"), false);
+      writeFileSync(join(TEST_CACHE_PATH, "staging/draft", "broken__0123456789abcdef.json"), "{", "utf-8");
+      const { io, output } = createIO();
+
+      runCli(["prune", "--dir", TEST_CACHE_DIR], io);
+
+      expect(output).toContain("Removed staging/draft/broken__0123456789abcdef.json (corrupt)");
+      expect(listCacheKeys(join(TEST_CACHE_DIR, "staging/draft"))).toEqual(["a.json"]);
+    });
+
+    it("should clear a single namespace", () => {
+      writeToCache("a.json", {}, join(TEST_CACHE_DIR, "staging/draft"), false);
+      writeEntry("cdn/stories/home", undefined, 0);
+      const { io } = createIO();
+
+      runCli(["clear", "--namespace", "staging", "--dir", TEST_CACHE_DIR], io);
+
+      expect(listCacheKeys(join(TEST_CACHE_DIR, "staging/draft"))).toEqual([]);
+      expect(listCacheKeys(TEST_CACHE_DIR)).toEqual([generateCacheKey("cdn/stories/home")]);
+    });
+  });
+
+  describe("export and import", () => {
+    const snapshotFile = join(TEST_CACHE_DIR + "-snapshots", "snapshot.json");
+
+    afterEach(() => {
+      rmSync(join(process.cwd(), TEST_CACHE_DIR + "-snapshots"), { recursive: true, force: true });
+    });
+
+    it("should round-trip the cache through a snapshot file", () => {
+      writeEntry("cdn/stories/home", undefined, 0);
+      const { io, output } = createIO();
+
+      expect(runCli(["export", snapshotFile, "--dir", TEST_CACHE_DIR], io)).toBe(0);
+      writeEntry("cdn/stories/about", undefined, 0);
+      expect(runCli(["import", snapshotFile, "--dir", TEST_CACHE_DIR], io)).toBe(0);
+
+      expect(listCacheKeys(TEST_CACHE_DIR)).toEqual([generateCacheKey("cdn/stories/home")]);
+      expect(output[0]).toMatch(/^Exported 1 entries \(.+\) from \.test-cache-cli to /);
+      expect(output[1]).toMatch(/^Imported 1 entries/);
+    });
+
+    it("should require a file", () => {
+      const { io, errors } = createIO();
+
+      expect(runCli(["import"], io)).toBe(1);
+      expect(errors).toEqual(["Missing <file> for import"]);
+    });
+  });
+
+  describe("stats", () => {
+    it("should summarize entries by endpoint", () => {
+      writeEntry("cdn/stories/home", undefined, 0);
+      writeEntry("cdn/stories/about", undefined, 0);
+      writeEntry("cdn/datasource_entries", { datasource: "colors" }, 0);
+      const { io, output } = createIO();
+
+      runCli(["stats", "--dir", TEST_CACHE_DIR], io);
+
+      expect(output).toContain("Entries:   3");
+      expect(output).toContain("  cdn/stories: 2");
+      expect(output).toContain("  cdn/datasource_entries: 1");
+    });
+  });
+});
@@ -0,0 +1,172 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { existsSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import {
+  clearDevCaches,
+  getPageEntries,
+  refreshPageEntries,
+  registerDevServer,
+  trackPage,
+  withDevTools,
+} from "../src/dev-tools";
+import type { DevServerHandlers } from "../src/dev-tools";
+import {
+  createCachedClient,
+  generateCacheKey,
+  listCacheKeys,
+  MemoryStore,
+  invalidateEntries,
+  writeToCache,
+} from "../src/index";
+
+const TEST_CACHE_DIR = ".test-cache-dev-tools";
+const TEST_CACHE_PATH = join(process.cwd(), TEST_CACHE_DIR);
+
+describe("dev tools", () => {
+  let handlers: DevServerHandlers & { [K in keyof DevServerHandlers]: ReturnType<typeof vi.fn> };
+  let unregister: () => void;
+
+  const createClient = (options = {}) =>
+    createCachedClient(
+      { get: vi.fn().mockResolvedValue({ data: { story: { name: "Home" } } }) } as never,
+      withDevTools({ enableCache: true, cacheDir: TEST_CACHE_DIR, namespace: false, verbose: false, ...options })
+    );
+
+  beforeEach(() => {
+    handlers = { watch: vi.fn(), written: vi.fn(), invalidated: vi.fn() };
+    unregister = registerDevServer(handlers);
+  });
+
+  afterEach(async () => {
+    await clearDevCaches();
+    unregister();
+    if (existsSync(TEST_CACHE_PATH)) {
+      rmSync(TEST_CACHE_PATH, { recursive: true });
+    }
+  });
+
+  it("should leave options alone without a dev server", () => {
+    unregister();
+    const options = { verbose: false };
+
+    expect(withDevTools(options)).toBe(options);
+  });
+
+  it("should watch the cache directory once", () => {
+    createClient();
+    createClient();
+
+    expect(handlers.watch).toHaveBeenCalledExactlyOnceWith(TEST_CACHE_DIR);
+  });
+
+  it("should record the entries a page uses", async () => {
+    const api = createClient();
+
+    await trackPage("/", () => api.get("cdn/stories/home", { version: "draft" }));
+    await trackPage("/about", async () => {
+      await api.get("cdn/stories/home", { version: "draft" });
+      await api.get("cdn/stories/about");
+    });
+
+    const key = generateCacheKey("cdn/stories/home", { version: "draft" });
+    expect(getPageEntries("/")).toEqual([
+      { id: key, cacheKey: key, slug: "cdn/stories/home", params: { version: "draft" }, source: "api" },
+    ]);
+    expect(getPageEntries("/about").map(({ slug, source }) => [slug, source])).toEqual([
+      ["cdn/stories/about", "api"],
+      ["cdn/stories/home", "store"],
+    ]);
+    expect(handlers.written).toHaveBeenCalledWith(join(TEST_CACHE_PATH, key));
+  });
+
+  it("should start over when a page renders again", async () => {
+    const api = createClient();
+
+    await trackPage("/", () => api.get("cdn/stories/home"));
+    await trackPage("/", () => Promise.resolve());
+
+    expect(getPageEntries("/")).toEqual([]);
+  });
+
+  it("should ignore requests outside a page", async () => {
+    await createClient().get("cdn/stories/home");
+
+    expect(getPageEntries("/")).toEqual([]);
+  });
+
+  it("should delete the entries of a page so they are fetched again", async () => {
+    const api = createClient();
+    await trackPage("/", async () => {
+      await api.get("cdn/stories/home");
+      await api.get("cdn/stories/about");
+    });
+
+    expect(await refreshPageEntries("/", [generateCacheKey("cdn/stories/home")])).toBe(1);
+    expect(listCacheKeys(TEST_CACHE_DIR)).toEqual([generateCacheKey("cdn/stories/about")]);
+    expect(await refreshPageEntries("/")).toBe(1);
+    expect(listCacheKeys(TEST_CACHE_DIR)).toEqual([]);
+  });
+
+  it("should delete entries from a custom store", async () => {
+    const store = new MemoryStore();
+    const api = createClient({ store, memoryCache: true });
+    await trackPage("/", () => api.get("cdn/stories/home"));
+
+    await refreshPageEntries("/");
+
+    expect(await store.list()).toEqual([]);
+    expect(handlers.written).not.toHaveBeenCalled();
+  });
+
+  it("should clear every cache in use", async () => {
+    const store = new MemoryStore();
+    await createClient().get("cdn/stories/home");
+    await createClient({ store }).get("cdn/stories/home");
+
+    expect(await clearDevCaches()).toBe(1);
+    expect(listCacheKeys(TEST_CACHE_DIR)).toEqual([]);
+    expect(await store.list()).toEqual([]);
+  });
+
+  it("should report an invalidation once however many wrappers use the cache", async () => {
+    const store = new MemoryStore();
+    const get = vi.fn().mockResolvedValue({ data: { story: { id: 1 } } });
+    for (let render = 0; render < 200; render++) {
+      await createCachedClient({ get } as never, withDevTools({ enableCache: true, verbose: false, store })).get(
+        "cdn/stories/home"
+      );
+    }
+
+    await invalidateEntries({ storyId: 1 }, { store, verbose: false });
+
+    expect(handlers.invalidated).toHaveBeenCalledOnce();
+  });
+
+  it("should report invalidations inside namespaces of the cache directory", async () => {
+    createClient();
+    const key = generateCacheKey("cdn/stories/home");
+    writeToCache(key, { timestamp: 0, data: { data: { story: { id: 1 } } } }, join(TEST_CACHE_DIR, "space/draft"), false);
+
+    await invalidateEntries({ storyId: 1 }, { cacheDir: TEST_CACHE_DIR, verbose: false });
+
+    expect(handlers.invalidated).toHaveBeenCalledOnce();
+  });
+
+  it("should report invalidations and keep the wrapper's own hooks", async () => {
+    const store = new MemoryStore();
+    const onInvalidate = vi.fn();
+    const onHit = vi.fn();
+    const api = createCachedClient(
+      { get: vi.fn().mockResolvedValue({ data: { story: { id: 1 } } }) } as never,
+      withDevTools({ enableCache: true, verbose: false, store, onInvalidate, onHit })
+    );
+    await api.get("cdn/stories/home");
+    await api.get("cdn/stories/home");
+
+    await invalidateEntries({ storyId: 1 }, { store, verbose: false });
+
+    expect(handlers.invalidated).toHaveBeenCalledOnce();
+    expect(onInvalidate).toHaveBeenCalledOnce();
+    expect(onHit).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,271 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { existsSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import { generateCacheKey, listCacheKeys, readFromCache, writeToCache } from "../src/cache";
+import { createCachedClient } from "../src/index";
+import { diffCache, diffValues, formatCacheDiff } from "../src/diff";
+import { listCacheEntries } from "../src/manifest";
+
+const TEST_CACHE_DIR = ".test-cache-diff";
+const TEST_CACHE_PATH = join(process.cwd(), TEST_CACHE_DIR);
+
+function cache(slug: string, data: unknown, params?: Record<string, unknown>, cacheDir = TEST_CACHE_DIR) {
+  const key = generateCacheKey(slug, params);
+  writeToCache(key, { timestamp: 1000, slug, ...(params && { params }), data: { data } }, cacheDir, false);
+  return key;
+}
+
+function clientReturning(responses: Record<string, unknown>) {
+  return {
+    get: vi.fn((slug: string) => {
+      const data = responses[slug];
+      return data instanceof Error ? Promise.reject(data) : Promise.resolve({ data });
+    }),
+  };
+}
+
+describe("diffValues", () => {
+  it("should report added, removed and changed fields", () => {
+    expect(diffValues({ a: 1, b: { c: "x" }, d: true }, { a: 2, b: { c: "x", e: [] } })).toEqual([
+      { path: "a", type: "changed", cached: 1, live: 2 },
+      { path: "b.e", type: "added", live: [] },
+      { path: "d", type: "removed", cached: true },
+    ]);
+  });
+
+  it("should match blocks by _uid", () => {
+    const cached = { body: [{ _uid: "a", title: "A" }, { _uid: "b", title: "B" }] };
+    const live = { body: [{ _uid: "b", title: "B!" }, { _uid: "c", title: "C" }] };
+
+    expect(diffValues(cached, live)).toEqual([
+      { path: "body[_uid=a]", type: "removed", cached: { _uid: "a", title: "A" } },
+      { path: "body[_uid=b].title", type: "changed", cached: "B", live: "B!" },
+      { path: "body[_uid=c]", type: "added", live: { _uid: "c", title: "C" } },
+    ]);
+  });
+
+  it("should report a reorder of identified items", () => {
+    expect(diffValues([{ id: 1 }, { id: 2 }], [{ id: 2 }, { id: 1 }], "items")).toEqual([
+      { path: "items", type: "changed", cached: ["id=1", "id=2"], live: ["id=2", "id=1"] },
+    ]);
+  });
+
+  it("should compare other arrays by position", () => {
+    expect(diffValues({ tags: ["a", "b"] }, { tags: ["a", "c", "d"] })).toEqual([
+      { path: "tags[1]", type: "changed", cached: "b", live: "c" },
+      { path: "tags[2]", type: "added", live: "d" },
+    ]);
+  });
+
+  it("should leave out ignored paths", () => {
+    expect(diffValues({ cv: 1, a: { b: 1 } }, { cv: 2, a: { b: 2 } }, "", ["cv", "a.b"])).toEqual([]);
+  });
+});
+
+describe("diffCache", () => {
+  beforeEach(() => {
+    if (existsSync(TEST_CACHE_PATH)) {
+      rmSync(TEST_CACHE_PATH, { recursive: true });
+    }
+  });
+
+  afterEach(() => {
+    if (existsSync(TEST_CACHE_PATH)) {
+      rmSync(TEST_CACHE_PATH, { recursive: true });
+    }
+  });
+
+  it("should report changed fields per story", async () => {
+    cache("cdn/stories/home", { story: { id: 1, full_slug: "home", content: { title: "Old" } }, cv: 1 }, { version: "draft" });
+    const client = clientReturning({
+      "cdn/stories/home": { story: { id: 1, full_slug: "home", content: { title: "New" } }, cv: 2 },
+    });
+
+    const result = await diffCache(client as never, { cacheDir: TEST_CACHE_DIR, verbose: false });
+
+    expect(client.get).toHaveBeenCalledWith("cdn/stories/home", { version: "draft" });
+    expect(result).toMatchObject({ checked: 1, unchanged: 0, failed: [], skipped: [] });
+    expect(result.changed).toEqual([
+      {
+        key: generateCacheKey("cdn/stories/home", { version: "draft" }),
+        slug: "cdn/stories/home",
+        params: { version: "draft" },
+        status: "changed",
+        stories: [
+          {
+            id: 1,
+            slug: "home",
+            status: "changed",
+            changes: [{ path: "content.title", type: "changed", cached: "Old", live: "New" }],
+          },
+        ],
+        changes: [],
+        refreshed: false,
+      },
+    ]);
+  });
+
+  it("should report added and removed stories of a listing", async () => {
+    cache("cdn/stories", { stories: [{ id: 1, full_slug: "a" }, { id: 2, full_slug: "b" }] });
+    const client = clientReturning({
+      "cdn/stories": { stories: [{ id: 2, full_slug: "b" }, { id: 3, full_slug: "c" }] },
+    });
+
+    const { changed } = await diffCache(client as never, { cacheDir: TEST_CACHE_DIR, verbose: false });
+
+    expect(changed[0]?.stories).toEqual([
+      { id: 1, slug: "a", status: "removed", changes: [] },
+      { id: 3, slug: "c", status: "added", changes: [] },
+    ]);
+  });
+
+  it("should count matching entries as unchanged", async () => {
+    cache("cdn/datasource_entries", { datasource_entries: [{ id: 1, value: "x" }] });
+    const client = clientReturning({ "cdn/datasource_entries": { datasource_entries: [{ id: 1, value: "x" }] } });
+
+    const result = await diffCache(client as never, { cacheDir: TEST_CACHE_DIR, verbose: false });
+
+    expect(result).toMatchObject({ checked: 1, unchanged: 1, changed: [] });
+  });
+
+  it("should refresh only changed entries", async () => {
+    const changedKey = cache("cdn/stories/a", { story: { id: 1, name: "Old" } });
+    const unchangedKey = cache("cdn/stories/b", { story: { id: 2, name: "Same" } });
+    const client = clientReturning({
+      "cdn/stories/a": { story: { id: 1, name: "New" }, cv: 5 },
+      "cdn/stories/b": { story: { id: 2, name: "Same" } },
+    });
+
+    const { changed } = await diffCache(client as never, { cacheDir: TEST_CACHE_DIR, verbose: false, refresh: true });
+
+    expect(changed.map(({ key, refreshed }) => [key, refreshed])).toEqual([[changedKey, true]]);
+    expect(readFromCache(changedKey, TEST_CACHE_DIR, false)).toMatchObject({
+      slug: "cdn/stories/a",
+      cv: 5,
+      data: { data: { story: { name: "New" } } },
+    });
+    expect(readFromCache(unchangedKey, TEST_CACHE_DIR, false)).toMatchObject({ timestamp: 1000 });
+  });
+
+  it("should report stories gone upstream and delete them on refresh", async () => {
+    const key = cache("cdn/stories/gone", { story: { id: 1 } });
+    const client = clientReturning({ "cdn/stories/gone": Object.assign(new Error("Not Found"), { status: 404 }) });
+
+    const { changed } = await diffCache(client as never, { cacheDir: TEST_CACHE_DIR, verbose: false, refresh: true });
+
+    expect(changed).toMatchObject([{ key, status: "removed", refreshed: true }]);
+    expect(listCacheKeys(TEST_CACHE_DIR)).toEqual([]);
+  });
+
+  it("should report failed requests and skip entries it can't compare", async () => {
+    cache("cdn/stories/a", { story: { id: 1 } });
+    writeToCache("legacy.json", { data: { story: { id: 2 } } }, TEST_CACHE_DIR, false);
+    const error = Object.assign(new Error("Server Error"), { status: 500 });
+    const client = clientReturning({ "cdn/stories/a": error });
+
+    const result = await diffCache(client as never, { cacheDir: TEST_CACHE_DIR, verbose: false });
+
+    expect(result).toMatchObject({ checked: 0, failed: [{ slug: "cdn/stories/a", error }], skipped: ["legacy.json"] });
+  });
+
+  it("should re-fetch without cv and ignored params", async () => {
+    cache("cdn/stories/home", { story: { id: 1 } }, { version: "published", cv: 100, _preview: "x" });
+    const client = clientReturning({ "cdn/stories/home": { story: { id: 1 } } });
+
+    const result = await diffCache(client as never, {
+      cacheDir: TEST_CACHE_DIR,
+      verbose: false,
+      cacheKey: { ignoreParams: ["_preview"] },
+    });
+
+    expect(client.get).toHaveBeenCalledWith("cdn/stories/home", { version: "published" });
+    expect(result.unchanged).toBe(1);
+  });
+
+  it("should not count its reads as accesses", async () => {
+    cache("cdn/stories/home", { story: { id: 1 } });
+    const accessedAt = listCacheEntries({}, TEST_CACHE_DIR)[0]?.accessedAt;
+    vi.spyOn(Date, "now").mockReturnValue(Date.now() + 60_000);
+
+    await diffCache(clientReturning({ "cdn/stories/home": { story: { id: 1 } } }) as never, {
+      cacheDir: TEST_CACHE_DIR,
+      verbose: false,
+    });
+    vi.restoreAllMocks();
+
+    expect(listCacheEntries({}, TEST_CACHE_DIR)[0]?.accessedAt).toBe(accessedAt);
+  });
+
+  it("should filter by slug prefix and namespace", async () => {
+    cache("cdn/stories/blog/a", { story: { id: 1, name: "A" } });
+    cache("cdn/stories/about", { story: { id: 2 } });
+    cache("cdn/stories/blog/b", { story: { id: 3 } }, undefined, join(TEST_CACHE_DIR, "space/draft"));
+    const client = clientReturning({
+      "cdn/stories/blog/a": { story: { id: 1, name: "A!" } },
+      "cdn/stories/blog/b": { story: { id: 3 } },
+    });
+
+    const all = await diffCache(client as never, { cacheDir: TEST_CACHE_DIR, verbose: false, slugPrefix: "cdn/stories/blog" });
+    const namespaced = await diffCache(client as never, {
+      cacheDir: TEST_CACHE_DIR,
+      verbose: false,
+      namespace: "space/draft",
+    });
+
+    expect(all.checked).toBe(2);
+    expect(all.changed.map(({ slug }) => slug)).toEqual(["cdn/stories/blog/a"]);
+    expect(namespaced).toMatchObject({ checked: 1, unchanged: 1 });
+  });
+
+  it("should fetch through the original client of a cached one", async () => {
+    cache("cdn/stories/home", { story: { id: 1 } });
+    const client = clientReturning({ "cdn/stories/home": { story: { id: 1 } } });
+    const cached = createCachedClient(client as never, { enableCache: true, mode: "offline", cacheDir: TEST_CACHE_DIR, verbose: false });
+
+    const result = await diffCache(cached, { cacheDir: TEST_CACHE_DIR, verbose: false });
+
+    expect(result.unchanged).toBe(1);
+    expect(client.get).toHaveBeenCalledOnce();
+  });
+});
+
+describe("formatCacheDiff", () => {
+  it("should print entries, stories, fields and a summary", () => {
+    const output = formatCacheDiff({
+      checked: 3,
+      unchanged: 1,
+      changed: [
+        {
+          key: "home.json",
+          slug: "cdn/stories/home",
+          params: { version: "draft" },
+          status: "changed",
+          stories: [
+            {
+              slug: "home",
+              status: "changed",
+              changes: [
+                { path: "content.title", type: "changed", cached: "Old", live: "New" },
+                { path: "content.subtitle", type: "added", live: "Hi" },
+              ],
+            },
+          ],
+          changes: [],
+          refreshed: true,
+        },
+        { key: "gone.json", slug: "cdn/stories/gone", status: "removed", stories: [], changes: [], refreshed: false },
+      ],
+      failed: [],
+      skipped: ["legacy.json"],
+    });
+
+    expect(output.split("\n")).toEqual([
+      '~ cdn/stories/home {"version":"draft"} (refreshed)',
+      "    ~ story home",
+      '        ~ content.title: "Old" → "New"',
+      '        + content.subtitle: "Hi"',
+      "- cdn/stories/gone",
+      "Checked 3 entries: 1 unchanged, 1 changed, 1 removed, 0 failed, 1 skipped",
+    ]);
+  });
+});
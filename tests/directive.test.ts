@@ -0,0 +1,26 @@
+import { describe, it, expect } from "vitest";
+import { splitCacheDirective } from "../src/directive";
+
+describe("splitCacheDirective", () => {
+  it("should leave params without a directive untouched", () => {
+    const params = { version: "draft" as const };
+
+    expect(splitCacheDirective(params)).toEqual({ params, control: {} });
+    expect(splitCacheDirective(params).params).toBe(params);
+    expect(splitCacheDirective(undefined)).toEqual({ params: undefined, control: {} });
+  });
+
+  it("should expand a request mode", () => {
+    expect(splitCacheDirective({ version: "draft", cache: "bypass" })).toEqual({
+      params: { version: "draft" },
+      control: { mode: "bypass" },
+    });
+  });
+
+  it("should pass cache settings through", () => {
+    expect(splitCacheDirective({ cache: { mode: "refresh", ttl: 1000, tags: ["footer"] } })).toEqual({
+      params: {},
+      control: { mode: "refresh", ttl: 1000, tags: ["footer"] },
+    });
+  });
+});
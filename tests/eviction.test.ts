@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { existsSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import { clearCache, generateCacheKey, listCacheKeys, readFromCache, writeToCache } from "../src/cache";
+import { enforceCacheLimits, pruneCache } from "../src/eviction";
+import { resolveLogger } from "../src/logger";
+
+const TEST_CACHE_DIR = ".test-cache-eviction";
+const TEST_CACHE_PATH = join(process.cwd(), TEST_CACHE_DIR);
+
+// Writes an entry at the given time, so eviction order is deterministic
+function writeAt(time: number, slug: string, cacheDir = TEST_CACHE_DIR) {
+  vi.spyOn(Date, "now").mockReturnValue(time);
+  const key = generateCacheKey(slug);
+  writeToCache(key, { timestamp: time, slug, data: { data: { story: { full_slug: slug } } } }, cacheDir, false);
+  vi.restoreAllMocks();
+  return key;
+}
+
+function readAt(time: number, key: string) {
+  vi.spyOn(Date, "now").mockReturnValue(time);
+  readFromCache(key, TEST_CACHE_DIR, false);
+  vi.restoreAllMocks();
+}
+
+describe("pruneCache", () => {
+  beforeEach(() => {
+    clearCache(TEST_CACHE_DIR);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    clearCache(TEST_CACHE_DIR);
+    if (existsSync(TEST_CACHE_PATH)) {
+      rmSync(TEST_CACHE_PATH, { recursive: true });
+    }
+  });
+
+  it("should evict the least recently read entries first", () => {
+    const a = writeAt(1000, "cdn/stories/a");
+    const b = writeAt(2000, "cdn/stories/b");
+    const c = writeAt(3000, "cdn/stories/c");
+    readAt(4000, a);
+
+    const result = pruneCache({ cacheDir: TEST_CACHE_DIR, maxEntries: 2, verbose: false });
+
+    expect(result.removed).toEqual([b]);
+    expect(result.entries).toBe(2);
+    expect(listCacheKeys(TEST_CACHE_DIR)).toEqual([a, c].sort());
+  });
+
+  it("should evict the oldest entries first with the oldest policy", () => {
+    const a = writeAt(1000, "cdn/stories/a");
+    const b = writeAt(2000, "cdn/stories/b");
+    writeAt(3000, "cdn/stories/c");
+    readAt(4000, a);
+
+    const result = pruneCache({
+      cacheDir: TEST_CACHE_DIR,
+      maxEntries: 1,
+      evictionPolicy: "oldest",
+      verbose: false,
+    });
+
+    expect(result.removed).toEqual([a, b]);
+  });
+
+  it("should evict until the total size fits", () => {
+    const a = writeAt(1000, "cdn/stories/a");
+    writeAt(2000, "cdn/stories/b");
+    const before = pruneCache({ cacheDir: TEST_CACHE_DIR, verbose: false });
+
+    const result = pruneCache({ cacheDir: TEST_CACHE_DIR, maxBytes: before.bytes - 1, verbose: false });
+
+    expect(result.removed).toEqual([a]);
+    expect(result.freedBytes + result.bytes).toBe(before.bytes);
+  });
+
+  it("should report nothing removed when within limits", () => {
+    writeAt(1000, "cdn/stories/a");
+
+    const result = pruneCache({ cacheDir: TEST_CACHE_DIR, maxEntries: 10, verbose: false });
+
+    expect(result).toEqual({ removed: [], freedBytes: 0, entries: 1, bytes: expect.any(Number) });
+  });
+
+  it("should apply the limits across namespaces", () => {
+    const flat = writeAt(1000, "cdn/stories/a");
+    const namespaced = writeAt(2000, "cdn/stories/b", join(TEST_CACHE_DIR, "space/draft"));
+
+    const result = pruneCache({ cacheDir: TEST_CACHE_DIR, maxEntries: 0, verbose: false });
+
+    expect(result.removed).toEqual([flat, `space/draft/${namespaced}`]);
+    expect(listCacheKeys(join(TEST_CACHE_DIR, "space/draft"))).toEqual([]);
+  });
+
+  it("should log evictions", () => {
+    writeAt(1000, "cdn/stories/a");
+    writeAt(2000, "cdn/stories/b");
+    const logger = { log: vi.fn(), warn: vi.fn() };
+
+    enforceCacheLimits(TEST_CACHE_DIR, { maxEntries: 1 }, resolveLogger(true, logger));
+
+    expect(logger.log).toHaveBeenCalledWith(expect.stringMatching(/^\[Cache\] Evicted 1 entries/));
+  });
+});
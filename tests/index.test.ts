@@ -1,14 +1,34 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import { existsSync, mkdirSync, writeFileSync, readFileSync, rmSync, readdirSync } from "node:fs";
 import { join } from "node:path";
+import v8 from "node:v8";
+import { runInNewContext } from "node:vm";
 import {
   generateCacheKey,
   readFromCache,
   writeToCache,
   clearCache,
-  useCachedStoryblokApi,
+  deleteFromCache,
+  listCacheKeys,
+  listNamespaces,
+  tokenFingerprint,
+  MemoryStore,
+  CacheMissError,
+  AlreadyCachedError,
+  isCachedClient,
+  getUnusedFixtures,
+  resetFixtureUsage,
+  invalidateEntries,
+  isCacheEntry,
+  resolveTtl,
+  isExpired,
+  getCacheStats,
+  resetCacheStats,
+  createCachedClient,
+  exportSnapshot,
 } from "../src/index";
-import type { ISbStoryParams } from "@storyblok/astro";
+import { useCachedStoryblokApi } from "../src/astro";
+import type { ISbStoryParams } from "storyblok-js-client";
 import { useStoryblokApi } from "@storyblok/astro";
 
 // Mock @storyblok/astro module
@@ -92,6 +112,58 @@ describe("generateCacheKey", () => {
 
     expect(key1).toBe(key2);
   });
+
+  it("should distinguish nested params", () => {
+    const key1 = generateCacheKey("cdn/stories", { filter_query: { component: { in: "post" } } });
+    const key2 = generateCacheKey("cdn/stories", { filter_query: { component: { in: "page" } } });
+
+    expect(key1).not.toBe(key2);
+  });
+
+  it("should normalize nested key order, array order and undefined values", () => {
+    const key1 = generateCacheKey("cdn/stories", {
+      filter_query: { b: { in: "x" }, a: { in: "y" } },
+      excluding_ids: undefined,
+      by_uuids: ["b", "a"],
+    } as ISbStoryParams);
+    const key2 = generateCacheKey("cdn/stories", {
+      by_uuids: ["a", "b"],
+      filter_query: { a: { in: "y" }, b: { in: "x" } },
+    } as ISbStoryParams);
+
+    expect(key1).toBe(key2);
+  });
+
+  it("should ignore cv and the access token", () => {
+    const key = generateCacheKey("cdn/stories/home", { version: "draft" });
+
+    expect(generateCacheKey("cdn/stories/home", { version: "draft", cv: 1 })).toBe(key);
+    expect(generateCacheKey("cdn/stories/home", { version: "draft", token: "secret" })).toBe(key);
+    expect(generateCacheKey("cdn/stories/home", { token: "secret" })).toBe(generateCacheKey("cdn/stories/home"));
+  });
+
+  it("should apply ignore and allow lists", () => {
+    const base = generateCacheKey("cdn/stories/home", { version: "draft" });
+
+    expect(generateCacheKey("cdn/stories/home", { version: "draft", language: "de" }, {
+      ignoreParams: ["language"],
+    })).toBe(base);
+    expect(generateCacheKey("cdn/stories/home", { version: "draft", cv: 1, page: 2 }, {
+      includeParams: ["version"],
+    })).toBe(base);
+    expect(generateCacheKey("cdn/stories/home", { version: "draft", cv: 1 }, {
+      ignoreParams: [],
+    })).not.toBe(base);
+  });
+
+  it("should use a custom key function with normalized params", () => {
+    const key = vi.fn((path: string, params: ISbStoryParams) => `${path}/${params.version ?? "published"}`);
+
+    expect(generateCacheKey("/cdn/stories/home", { version: "draft", token: "secret" }, { key })).toBe(
+      "cdn_stories_home_draft.json"
+    );
+    expect(key).toHaveBeenCalledWith("cdn/stories/home", { version: "draft" });
+  });
 });
 
 describe("readFromCache", () => {
@@ -145,6 +217,18 @@ describe("readFromCache", () => {
     expect(result).toBeNull();
   });
 
+  it("should quarantine corrupted cache files", () => {
+    const cacheKey = "corrupted-cache.json";
+    writeFileSync(join(TEST_CACHE_PATH, cacheKey), "{ invalid json", "utf-8");
+
+    readFromCache(cacheKey, TEST_CACHE_DIR, false);
+
+    expect(existsSync(join(TEST_CACHE_PATH, cacheKey))).toBe(false);
+    expect(readdirSync(join(TEST_CACHE_PATH, ".quarantine"))).toEqual([
+      expect.stringMatching(/^\d+-corrupted-cache\.json$/),
+    ]);
+  });
+
   it("should handle complex nested objects", () => {
     const cacheKey = "complex-cache.json";
     const testData = {
@@ -376,6 +460,239 @@ describe("clearCache", () => {
   });
 });
 
+describe("listNamespaces", () => {
+  afterEach(() => {
+    if (existsSync(TEST_CACHE_PATH)) {
+      rmSync(TEST_CACHE_PATH, { recursive: true });
+    }
+  });
+
+  it("should list subdirectories holding entries", () => {
+    writeToCache("root.json", {}, TEST_CACHE_DIR, false);
+    writeToCache("a.json", {}, join(TEST_CACHE_DIR, "staging/draft"), false);
+    writeToCache("b.json", {}, join(TEST_CACHE_DIR, "staging/published"), false);
+    mkdirSync(join(TEST_CACHE_PATH, ".quarantine"), { recursive: true });
+    writeFileSync(join(TEST_CACHE_PATH, ".quarantine", "1-broken.json"), "{", "utf-8");
+
+    expect(listNamespaces(TEST_CACHE_DIR)).toEqual(["staging/draft", "staging/published"]);
+  });
+
+  it("should return an empty list for a missing directory", () => {
+    expect(listNamespaces(TEST_CACHE_DIR)).toEqual([]);
+  });
+});
+
+describe("clearCache with namespaces", () => {
+  beforeEach(() => {
+    writeToCache("root.json", {}, TEST_CACHE_DIR, false);
+    writeToCache("a.json", {}, join(TEST_CACHE_DIR, "staging/draft"), false);
+    writeToCache("b.json", {}, join(TEST_CACHE_DIR, "production/draft"), false);
+  });
+
+  afterEach(() => {
+    if (existsSync(TEST_CACHE_PATH)) {
+      rmSync(TEST_CACHE_PATH, { recursive: true });
+    }
+  });
+
+  it("should clear every namespace by default", () => {
+    expect(clearCache(TEST_CACHE_DIR)).toBe(3);
+    expect(listNamespaces(TEST_CACHE_DIR)).toEqual([]);
+  });
+
+  it("should clear a single namespace", () => {
+    expect(clearCache(TEST_CACHE_DIR, "staging")).toBe(1);
+    expect(listNamespaces(TEST_CACHE_DIR)).toEqual(["production/draft"]);
+    expect(listCacheKeys(TEST_CACHE_DIR)).toEqual(["root.json"]);
+  });
+});
+
+describe("deleteFromCache", () => {
+  afterEach(() => {
+    if (existsSync(TEST_CACHE_PATH)) {
+      rmSync(TEST_CACHE_PATH, { recursive: true });
+    }
+  });
+
+  it("should delete a single cache file", () => {
+    writeToCache("a.json", {}, TEST_CACHE_DIR, false);
+    writeToCache("b.json", {}, TEST_CACHE_DIR, false);
+
+    expect(deleteFromCache("a.json", TEST_CACHE_DIR)).toBe(true);
+    expect(listCacheKeys(TEST_CACHE_DIR)).toEqual(["b.json"]);
+  });
+
+  it("should return false if the file does not exist", () => {
+    expect(deleteFromCache("missing.json", TEST_CACHE_DIR)).toBe(false);
+  });
+});
+
+describe("isCacheEntry", () => {
+  it("should recognize timestamped entries", () => {
+    expect(isCacheEntry({ timestamp: 1, data: { story: {} } })).toBe(true);
+  });
+
+  it("should reject raw responses", () => {
+    expect(isCacheEntry({ data: { story: {} } })).toBe(false);
+    expect(isCacheEntry(null)).toBe(false);
+  });
+});
+
+describe("resolveTtl", () => {
+  it("should return the global ttl when no rule matches", () => {
+    expect(resolveTtl("cdn/stories/home", 1000)).toBe(1000);
+    expect(resolveTtl("cdn/stories/home")).toBeUndefined();
+  });
+
+  it("should match wildcard string patterns", () => {
+    const rules = [{ pattern: "cdn/stories/blog/*", ttl: 5000 }];
+
+    expect(resolveTtl("/cdn/stories/blog/post-1", 1000, rules)).toBe(5000);
+    expect(resolveTtl("cdn/stories/home", 1000, rules)).toBe(1000);
+  });
+
+  it("should match RegExp patterns", () => {
+    const rules = [{ pattern: /datasource/, ttl: 86_400_000 }];
+
+    expect(resolveTtl("cdn/datasource_entries", undefined, rules)).toBe(86_400_000);
+  });
+
+  it("should use the first matching rule", () => {
+    const rules = [
+      { pattern: "cdn/stories/blog/*", ttl: 1 },
+      { pattern: "cdn/stories/*", ttl: 2 },
+    ];
+
+    expect(resolveTtl("cdn/stories/blog/post", undefined, rules)).toBe(1);
+  });
+});
+
+describe("isExpired", () => {
+  it("should never expire without a ttl", () => {
+    expect(isExpired({ timestamp: 0, data: null })).toBe(false);
+  });
+
+  it("should expire entries older than the ttl", () => {
+    const entry = { timestamp: 1000, data: null };
+
+    expect(isExpired(entry, 500, 1499)).toBe(false);
+    expect(isExpired(entry, 500, 1500)).toBe(true);
+  });
+});
+
+describe("createCachedClient", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    if (existsSync(TEST_CACHE_PATH)) {
+      rmSync(TEST_CACHE_PATH, { recursive: true });
+    }
+  });
+
+  it("should cache any Storyblok client", async () => {
+    const mockGet = vi.fn().mockResolvedValue({ data: { story: { name: "Home" } } });
+    const client = { get: mockGet };
+
+    const api = createCachedClient(client as never, { enableCache: true, cacheDir: TEST_CACHE_DIR, verbose: false });
+    await api.get("cdn/stories/home");
+    const result = await api.get("cdn/stories/home");
+
+    expect(result).toEqual({ data: { story: { name: "Home" } } });
+    expect(mockGet).toHaveBeenCalledTimes(1);
+    expect(useStoryblokApi).not.toHaveBeenCalled();
+  });
+
+  it("should refuse a cached client", () => {
+    const api = createCachedClient({ get: vi.fn() } as never, { verbose: false });
+
+    expect(() => createCachedClient(api, { verbose: false })).toThrow(AlreadyCachedError);
+  });
+
+  it("should serve status and headers from the cache", async () => {
+    const response = {
+      data: { stories: [] },
+      status: 200,
+      perPage: 25,
+      total: 60,
+      headers: new Headers({ Total: "60", "Per-Page": "25", "Set-Cookie": "session=1" }),
+    };
+    const client = { get: vi.fn().mockResolvedValue(response) };
+
+    const api = createCachedClient(client as never, { enableCache: true, cacheDir: TEST_CACHE_DIR, verbose: false });
+    await api.get("cdn/stories");
+    const cached = await createCachedClient({ get: vi.fn() } as never, {
+      enableCache: true,
+      cacheDir: TEST_CACHE_DIR,
+      mode: "offline",
+      verbose: false,
+    }).get("cdn/stories");
+
+    expect(cached).toMatchObject({ data: { stories: [] }, status: 200, perPage: 25, total: 60 });
+    expect(cached.headers).toBeInstanceOf(Headers);
+    expect(cached.headers.get("total")).toBe("60");
+    expect(cached.headers.get("per-page")).toBe("25");
+    expect(cached.headers.has("set-cookie")).toBe(false);
+  });
+
+  it("should fetch every page of getAll through the cache", async () => {
+    const mockGet = vi.fn((_slug: string, params: { page: number }) =>
+      Promise.resolve({
+        data: { stories: [{ id: params.page * 2 - 1 }, { id: params.page * 2 }] },
+        perPage: 2,
+        total: 5,
+      })
+    );
+    const client = { get: mockGet };
+
+    const api = createCachedClient(client as never, { enableCache: true, cacheDir: TEST_CACHE_DIR, verbose: false });
+    const stories = await api.getAll("cdn/stories/", { per_page: 2 });
+    const cached = await api.getAll("cdn/stories", { per_page: 2 });
+
+    expect(stories.map(({ id }) => id)).toEqual([1, 2, 3, 4, 5, 6]);
+    expect(cached).toEqual(stories);
+    expect(mockGet).toHaveBeenCalledTimes(3);
+    expect(mockGet).toHaveBeenCalledWith("cdn/stories", { per_page: 2, page: 3 }, undefined);
+  });
+
+  it("should store the params it was called with, not those the client added", async () => {
+    const client = {
+      get: vi.fn((_slug: string, params: Record<string, unknown>) => {
+        params.cv = 100;
+        return Promise.resolve({ data: { story: { name: "Home" } } });
+      }),
+    };
+
+    const api = createCachedClient(client as never, { enableCache: true, cacheDir: TEST_CACHE_DIR, verbose: false });
+    await api.get("cdn/stories/home", { version: "published" });
+
+    const cacheKey = generateCacheKey("cdn/stories/home", { version: "published" });
+    expect(readFromCache(cacheKey, TEST_CACHE_DIR, false)?.params).toEqual({ version: "published" });
+  });
+
+  it("should cache getStory and getStories", async () => {
+    const mockGet = vi.fn().mockResolvedValue({ data: { story: { name: "Home" } } });
+    const client = {
+      get: mockGet,
+      getStory(this: { get: typeof mockGet }, slug: string, params?: ISbStoryParams) {
+        return this.get(`cdn/stories/${slug}`, params);
+      },
+      getStories(this: { get: typeof mockGet }, params?: ISbStoryParams) {
+        return this.get("cdn/stories", params);
+      },
+    };
+
+    const api = createCachedClient(client as never, { enableCache: true, cacheDir: TEST_CACHE_DIR, verbose: false });
+    await api.getStory("home");
+    await api.getStory("home");
+    await api.getStories({ version: "draft" });
+    await api.getStories({ version: "draft" });
+
+    expect(mockGet).toHaveBeenCalledTimes(2);
+  });
+});
+
 describe("useCachedStoryblokApi", () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -399,7 +716,7 @@ describe("useCachedStoryblokApi", () => {
     const api = useCachedStoryblokApi({ enableCache: false });
     const result = await api.get("cdn/stories/home");
 
-    expect(mockGet).toHaveBeenCalledWith("cdn/stories/home", undefined);
+    expect(mockGet).toHaveBeenCalledWith("cdn/stories/home", undefined, undefined);
     expect(result).toEqual({ data: { story: { name: "Test" } } });
   });
 
@@ -455,7 +772,7 @@ describe("useCachedStoryblokApi", () => {
 
     await api.get("cdn/stories/home", params);
 
-    expect(mockGet).toHaveBeenCalledWith("cdn/stories/home", params);
+    expect(mockGet).toHaveBeenCalledWith("cdn/stories/home", params, undefined);
   });
 
   it("should use default cache directory when not specified", async () => {
@@ -537,4 +854,1540 @@ describe("useCachedStoryblokApi", () => {
     expect(consoleSpy).toHaveBeenCalled();
     consoleSpy.mockRestore();
   });
+
+  it("should store entries with a timestamp", async () => {
+    const mockGet = vi.fn().mockResolvedValue({ data: { story: { name: "Test" } } });
+    vi.mocked(useStoryblokApi).mockReturnValue({
+      get: mockGet,
+    } as never);
+
+    const api = useCachedStoryblokApi({
+      enableCache: true,
+      cacheDir: TEST_CACHE_DIR,
+      verbose: false,
+    });
+
+    await api.get("cdn/stories/home");
+
+    const cached = readFromCache(generateCacheKey("cdn/stories/home"), TEST_CACHE_DIR, false);
+    expect(isCacheEntry(cached)).toBe(true);
+  });
+
+  it("should serve legacy cache files written without a timestamp", async () => {
+    const mockGet = vi.fn();
+    vi.mocked(useStoryblokApi).mockReturnValue({
+      get: mockGet,
+    } as never);
+
+    writeToCache(
+      generateCacheKey("cdn/stories/home"),
+      { data: { story: { name: "Legacy" } } },
+      TEST_CACHE_DIR,
+      false
+    );
+
+    const api = useCachedStoryblokApi({
+      enableCache: true,
+      cacheDir: TEST_CACHE_DIR,
+      verbose: false,
+    });
+
+    const result = await api.get("cdn/stories/home");
+
+    expect(mockGet).not.toHaveBeenCalled();
+    expect(result).toEqual({ data: { story: { name: "Legacy" } } });
+  });
+
+  it("should refetch entries older than the ttl", async () => {
+    const mockGet = vi.fn().mockResolvedValue({ data: { story: { name: "Fresh" } } });
+    vi.mocked(useStoryblokApi).mockReturnValue({
+      get: mockGet,
+    } as never);
+
+    writeToCache(
+      generateCacheKey("cdn/stories/home"),
+      { timestamp: Date.now() - 10_000, data: { data: { story: { name: "Old" } } } },
+      TEST_CACHE_DIR,
+      false
+    );
+
+    const api = useCachedStoryblokApi({
+      enableCache: true,
+      cacheDir: TEST_CACHE_DIR,
+      verbose: false,
+      ttl: 5_000,
+    });
+
+    const result = await api.get("cdn/stories/home");
+
+    expect(mockGet).toHaveBeenCalledTimes(1);
+    expect(result).toEqual({ data: { story: { name: "Fresh" } } });
+  });
+
+  it("should apply per-slug ttl rules", async () => {
+    const mockGet = vi.fn().mockResolvedValue({ data: { story: { name: "Fresh" } } });
+    vi.mocked(useStoryblokApi).mockReturnValue({
+      get: mockGet,
+    } as never);
+
+    writeToCache(
+      generateCacheKey("cdn/stories/footer"),
+      { timestamp: Date.now() - 10_000, data: { data: { story: { name: "Old" } } } },
+      TEST_CACHE_DIR,
+      false
+    );
+
+    const api = useCachedStoryblokApi({
+      enableCache: true,
+      cacheDir: TEST_CACHE_DIR,
+      verbose: false,
+      ttl: 5_000,
+      ttlRules: [{ pattern: "cdn/stories/footer", ttl: 60_000 }],
+    });
+
+    const result = await api.get("cdn/stories/footer");
+
+    expect(mockGet).not.toHaveBeenCalled();
+    expect(result).toEqual({ data: { story: { name: "Old" } } });
+  });
+
+  it("should serve stale entries and revalidate in the background", async () => {
+    const mockGet = vi.fn().mockResolvedValue({ data: { story: { name: "Fresh" } } });
+    vi.mocked(useStoryblokApi).mockReturnValue({
+      get: mockGet,
+    } as never);
+
+    const cacheKey = generateCacheKey("cdn/stories/home");
+    writeToCache(
+      cacheKey,
+      { timestamp: Date.now() - 10_000, data: { data: { story: { name: "Old" } } } },
+      TEST_CACHE_DIR,
+      false
+    );
+
+    const api = useCachedStoryblokApi({
+      enableCache: true,
+      cacheDir: TEST_CACHE_DIR,
+      verbose: false,
+      ttl: 5_000,
+      staleWhileRevalidate: true,
+    });
+
+    const result = await api.get("cdn/stories/home");
+    expect(result).toEqual({ data: { story: { name: "Old" } } });
+
+    await vi.waitFor(() => {
+      const cached = readFromCache<{ data: unknown }>(cacheKey, TEST_CACHE_DIR, false);
+      expect(cached?.data).toEqual({ data: { story: { name: "Fresh" } } });
+    });
+    expect(mockGet).toHaveBeenCalledTimes(1);
+  });
+
+  it("should share one upstream request between concurrent identical calls", async () => {
+    const consoleSpy = vi.spyOn(console, "log").mockImplementation(() => undefined);
+    let resolveGet: (value: unknown) => void = () => undefined;
+    const mockGet = vi.fn(
+      () => new Promise((resolve) => {
+        resolveGet = resolve;
+      })
+    );
+    vi.mocked(useStoryblokApi).mockReturnValue({
+      get: mockGet,
+    } as never);
+
+    const api = useCachedStoryblokApi({
+      enableCache: true,
+      cacheDir: TEST_CACHE_DIR,
+      verbose: true,
+    });
+
+    const calls = [
+      api.get("cdn/stories/home", { version: "draft" }),
+      api.get("cdn/stories/home", { version: "draft" }),
+      api.get("cdn/stories/home", { version: "draft" }),
+    ];
+    await vi.waitFor(() => expect(mockGet).toHaveBeenCalled());
+    resolveGet({ data: { story: { name: "Test" } } });
+    const results = await Promise.all(calls);
+
+    expect(mockGet).toHaveBeenCalledTimes(1);
+    expect(results[0]).toBe(results[1]);
+    expect(results[1]).toBe(results[2]);
+    const writes = consoleSpy.mock.calls.filter(([message]) =>
+      String(message).includes("Saved to cache")
+    );
+    expect(writes).toHaveLength(1);
+    consoleSpy.mockRestore();
+  });
+
+  it("should coalesce concurrent calls across wrappers of the same cache", async () => {
+    let resolveGet: (value: unknown) => void = () => undefined;
+    const mockGet = vi.fn(
+      () => new Promise((resolve) => {
+        resolveGet = resolve;
+      })
+    );
+    vi.mocked(useStoryblokApi).mockReturnValue({
+      get: mockGet,
+    } as never);
+    const options = { enableCache: true, cacheDir: TEST_CACHE_DIR, verbose: false };
+    const onWrite = vi.fn();
+
+    // Each page calls useCachedStoryblokApi() and gets its own wrapper
+    const calls = [
+      useCachedStoryblokApi({ ...options, onWrite }).get("cdn/stories/home"),
+      useCachedStoryblokApi({ ...options, onWrite }).get("cdn/stories/home"),
+    ];
+    await vi.waitFor(() => expect(mockGet).toHaveBeenCalled());
+    resolveGet({ data: { story: { name: "Test" } } });
+    await Promise.all(calls);
+
+    expect(mockGet).toHaveBeenCalledTimes(1);
+    expect(onWrite).toHaveBeenCalledTimes(1);
+  });
+
+  it("should reject all concurrent callers with the same error and retry afterwards", async () => {
+    const error = new Error("Rate limited");
+    const mockGet = vi
+      .fn()
+      .mockRejectedValueOnce(error)
+      .mockResolvedValueOnce({ data: { story: { name: "Test" } } });
+    vi.mocked(useStoryblokApi).mockReturnValue({
+      get: mockGet,
+    } as never);
+
+    const api = useCachedStoryblokApi({
+      enableCache: true,
+      cacheDir: TEST_CACHE_DIR,
+      verbose: false,
+    });
+
+    const results = await Promise.allSettled([
+      api.get("cdn/stories/home"),
+      api.get("cdn/stories/home"),
+    ]);
+
+    expect(mockGet).toHaveBeenCalledTimes(1);
+    expect(results).toEqual([
+      { status: "rejected", reason: error },
+      { status: "rejected", reason: error },
+    ]);
+
+    await expect(api.get("cdn/stories/home")).resolves.toEqual({
+      data: { story: { name: "Test" } },
+    });
+    expect(mockGet).toHaveBeenCalledTimes(2);
+  });
+
+  it("should not coalesce calls with different params", async () => {
+    const mockGet = vi.fn().mockResolvedValue({ data: { story: { name: "Test" } } });
+    vi.mocked(useStoryblokApi).mockReturnValue({
+      get: mockGet,
+    } as never);
+
+    const api = useCachedStoryblokApi({
+      enableCache: true,
+      cacheDir: TEST_CACHE_DIR,
+      verbose: false,
+    });
+
+    await Promise.all([
+      api.get("cdn/stories/home", { version: "draft" }),
+      api.get("cdn/stories/home", { version: "published" }),
+    ]);
+
+    expect(mockGet).toHaveBeenCalledTimes(2);
+  });
+
+  describe("memory tier", () => {
+    beforeEach(() => {
+      clearCache(TEST_CACHE_DIR);
+      resetCacheStats();
+    });
+
+    it("should serve repeated reads from memory without touching the disk", async () => {
+      const mockGet = vi.fn().mockResolvedValue({ data: { story: { name: "Test" } } });
+      vi.mocked(useStoryblokApi).mockReturnValue({
+        get: mockGet,
+      } as never);
+
+      const api = useCachedStoryblokApi({
+        enableCache: true,
+        cacheDir: TEST_CACHE_DIR,
+        verbose: false,
+        memoryCache: true,
+      });
+
+      await api.get("cdn/stories/home");
+      rmSync(TEST_CACHE_PATH, { recursive: true });
+      const result = await api.get("cdn/stories/home");
+
+      expect(mockGet).toHaveBeenCalledTimes(1);
+      expect(result).toEqual({ data: { story: { name: "Test" } } });
+      expect(getCacheStats().memory).toEqual({ hits: 1, misses: 1 });
+      expect(getCacheStats().store).toEqual({ hits: 0, misses: 1 });
+    });
+
+    it("should not share response objects between callers", async () => {
+      const mockGet = vi.fn().mockResolvedValue({ data: { story: { name: "Test" } } });
+      vi.mocked(useStoryblokApi).mockReturnValue({
+        get: mockGet,
+      } as never);
+
+      const api = useCachedStoryblokApi({
+        enableCache: true,
+        cacheDir: TEST_CACHE_DIR,
+        verbose: false,
+        memoryCache: true,
+      });
+
+      const first = await api.get("cdn/stories/home");
+      first.data.story.name = "Changed";
+      const second = await api.get("cdn/stories/home");
+      second.data.story.name = "Changed again";
+      const third = await api.get("cdn/stories/home");
+
+      expect(getCacheStats().memory.hits).toBe(2);
+      expect(third.data.story.name).toBe("Test");
+    });
+
+    it("should promote disk hits into memory", async () => {
+      const mockGet = vi.fn();
+      vi.mocked(useStoryblokApi).mockReturnValue({
+        get: mockGet,
+      } as never);
+
+      // Written directly so the entry only exists on disk
+      mkdirSync(TEST_CACHE_PATH, { recursive: true });
+      writeFileSync(
+        join(TEST_CACHE_PATH, generateCacheKey("cdn/stories/home")),
+        JSON.stringify({ timestamp: Date.now(), data: { data: { story: { name: "Disk" } } } }),
+        "utf-8"
+      );
+
+      const api = useCachedStoryblokApi({
+        enableCache: true,
+        cacheDir: TEST_CACHE_DIR,
+        verbose: false,
+        memoryCache: { maxEntries: 10 },
+      });
+
+      await api.get("cdn/stories/home");
+      await api.get("cdn/stories/home");
+
+      expect(mockGet).not.toHaveBeenCalled();
+      expect(getCacheStats().memory).toEqual({ hits: 1, misses: 1 });
+      expect(getCacheStats().store).toEqual({ hits: 1, misses: 0 });
+    });
+
+    it("should be emptied by clearCache", async () => {
+      const mockGet = vi.fn().mockResolvedValue({ data: { story: { name: "Test" } } });
+      vi.mocked(useStoryblokApi).mockReturnValue({
+        get: mockGet,
+      } as never);
+
+      const api = useCachedStoryblokApi({
+        enableCache: true,
+        cacheDir: TEST_CACHE_DIR,
+        verbose: false,
+        memoryCache: true,
+      });
+
+      await api.get("cdn/stories/home");
+      clearCache(TEST_CACHE_DIR);
+      await api.get("cdn/stories/home");
+
+      expect(mockGet).toHaveBeenCalledTimes(2);
+    });
+
+    it("should not count memory stats when the tier is disabled", async () => {
+      const mockGet = vi.fn().mockResolvedValue({ data: { story: { name: "Test" } } });
+      vi.mocked(useStoryblokApi).mockReturnValue({
+        get: mockGet,
+      } as never);
+
+      const api = useCachedStoryblokApi({
+        enableCache: true,
+        cacheDir: TEST_CACHE_DIR,
+        verbose: false,
+      });
+
+      await api.get("cdn/stories/home");
+      await api.get("cdn/stories/home");
+
+      expect(getCacheStats().memory).toEqual({ hits: 0, misses: 0 });
+      expect(getCacheStats().store).toEqual({ hits: 1, misses: 1 });
+    });
+  });
+
+  describe("custom store", () => {
+    it("should read and write entries through the given store", async () => {
+      const mockGet = vi.fn().mockResolvedValue({ data: { story: { name: "Test" } } });
+      vi.mocked(useStoryblokApi).mockReturnValue({
+        get: mockGet,
+      } as never);
+
+      const store = new MemoryStore();
+      const api = useCachedStoryblokApi({
+        enableCache: true,
+        cacheDir: TEST_CACHE_DIR,
+        verbose: false,
+        store,
+      });
+
+      await api.get("cdn/stories/home");
+      const result = await api.get("cdn/stories/home");
+
+      expect(mockGet).toHaveBeenCalledTimes(1);
+      expect(result).toEqual({ data: { story: { name: "Test" } } });
+      expect(await store.list()).toEqual([generateCacheKey("cdn/stories/home")]);
+      expect(existsSync(TEST_CACHE_PATH)).toBe(false);
+    });
+  });
+
+  describe("mode", () => {
+    it("should serve cached entries in offline mode, even when expired", async () => {
+      const mockGet = vi.fn();
+      vi.mocked(useStoryblokApi).mockReturnValue({
+        get: mockGet,
+      } as never);
+
+      writeToCache(
+        generateCacheKey("cdn/stories/home"),
+        { timestamp: 0, data: { data: { story: { name: "Old" } } } },
+        TEST_CACHE_DIR,
+        false
+      );
+
+      const api = useCachedStoryblokApi({
+        cacheDir: TEST_CACHE_DIR,
+        verbose: false,
+        mode: "offline",
+        ttl: 1000,
+      });
+
+      const result = await api.get("cdn/stories/home");
+
+      expect(mockGet).not.toHaveBeenCalled();
+      expect(result).toEqual({ data: { story: { name: "Old" } } });
+    });
+
+    it("should throw CacheMissError on a miss in offline mode", async () => {
+      const mockGet = vi.fn();
+      vi.mocked(useStoryblokApi).mockReturnValue({
+        get: mockGet,
+      } as never);
+
+      const api = useCachedStoryblokApi({
+        cacheDir: TEST_CACHE_DIR,
+        verbose: false,
+        mode: "offline",
+      });
+      const params: ISbStoryParams = { version: "draft" };
+
+      const error = await api.get("cdn/stories/missing", params).catch((e: unknown) => e);
+
+      expect(mockGet).not.toHaveBeenCalled();
+      expect(error).toBeInstanceOf(CacheMissError);
+      expect(error).toMatchObject({
+        name: "CacheMissError",
+        slug: "cdn/stories/missing",
+        params,
+        cacheKey: generateCacheKey("cdn/stories/missing", params),
+      });
+    });
+
+    it("should always query the API and overwrite the entry in refresh mode", async () => {
+      const mockGet = vi.fn().mockResolvedValue({ data: { story: { name: "Fresh" } } });
+      vi.mocked(useStoryblokApi).mockReturnValue({
+        get: mockGet,
+      } as never);
+
+      const cacheKey = generateCacheKey("cdn/stories/home");
+      writeToCache(
+        cacheKey,
+        { timestamp: Date.now(), data: { data: { story: { name: "Old" } } } },
+        TEST_CACHE_DIR,
+        false
+      );
+
+      const api = useCachedStoryblokApi({
+        cacheDir: TEST_CACHE_DIR,
+        verbose: false,
+        mode: "refresh",
+      });
+
+      const result = await api.get("cdn/stories/home");
+
+      expect(mockGet).toHaveBeenCalledTimes(1);
+      expect(result).toEqual({ data: { story: { name: "Fresh" } } });
+      expect(readFromCache<{ data: unknown }>(cacheKey, TEST_CACHE_DIR, false)?.data).toEqual({
+        data: { story: { name: "Fresh" } },
+      });
+    });
+
+    it("should enable caching by default outside development for non-default modes", async () => {
+      const originalEnv = process.env["NODE_ENV"];
+      process.env["NODE_ENV"] = "production";
+
+      const mockGet = vi.fn();
+      vi.mocked(useStoryblokApi).mockReturnValue({
+        get: mockGet,
+      } as never);
+
+      const api = useCachedStoryblokApi({
+        cacheDir: TEST_CACHE_DIR,
+        verbose: false,
+        mode: "offline",
+      });
+
+      await expect(api.get("cdn/stories/home")).rejects.toBeInstanceOf(CacheMissError);
+      expect(mockGet).not.toHaveBeenCalled();
+
+      process.env["NODE_ENV"] = originalEnv;
+    });
+  });
+
+  describe("record and replay", () => {
+    beforeEach(() => {
+      resetFixtureUsage();
+    });
+
+    it("should record fixtures and replay them without the API", async () => {
+      const mockGet = vi.fn().mockResolvedValue({ data: { story: { name: "Recorded" } } });
+      vi.mocked(useStoryblokApi).mockReturnValue({
+        get: mockGet,
+      } as never);
+
+      const recorder = useCachedStoryblokApi({
+        cacheDir: TEST_CACHE_DIR,
+        verbose: false,
+        mode: "record",
+      });
+      await recorder.get("cdn/stories/home", { version: "draft" });
+
+      const player = useCachedStoryblokApi({
+        cacheDir: TEST_CACHE_DIR,
+        verbose: false,
+        mode: "replay",
+      });
+      const result = await player.get("cdn/stories/home", { version: "draft" });
+
+      expect(mockGet).toHaveBeenCalledTimes(1);
+      expect(result).toEqual({ data: { story: { name: "Recorded" } } });
+    });
+
+    it("should fail on requests without a fixture", async () => {
+      const mockGet = vi.fn();
+      vi.mocked(useStoryblokApi).mockReturnValue({
+        get: mockGet,
+      } as never);
+
+      const player = useCachedStoryblokApi({
+        cacheDir: TEST_CACHE_DIR,
+        verbose: false,
+        mode: "replay",
+      });
+
+      await expect(player.get("cdn/stories/unknown")).rejects.toBeInstanceOf(CacheMissError);
+      expect(mockGet).not.toHaveBeenCalled();
+    });
+
+    it("should report fixtures that were never replayed", async () => {
+      vi.mocked(useStoryblokApi).mockReturnValue({
+        get: vi.fn(),
+      } as never);
+
+      writeToCache(generateCacheKey("cdn/stories/home"), { timestamp: 0, data: {} }, TEST_CACHE_DIR, false);
+      writeToCache(generateCacheKey("cdn/stories/about"), { timestamp: 0, data: {} }, TEST_CACHE_DIR, false);
+
+      const player = useCachedStoryblokApi({
+        cacheDir: TEST_CACHE_DIR,
+        verbose: false,
+        mode: "replay",
+      });
+      await player.get("cdn/stories/home");
+
+      expect(await getUnusedFixtures({ cacheDir: TEST_CACHE_DIR })).toEqual([
+        generateCacheKey("cdn/stories/about"),
+      ]);
+    });
+
+    it("should track usage per store", async () => {
+      vi.mocked(useStoryblokApi).mockReturnValue({
+        get: vi.fn(),
+      } as never);
+
+      const store = new MemoryStore();
+      await store.set(generateCacheKey("cdn/stories/home"), { timestamp: 0, data: {} });
+
+      const player = useCachedStoryblokApi({ verbose: false, mode: "replay", store });
+
+      expect(await getUnusedFixtures({ store })).toEqual([generateCacheKey("cdn/stories/home")]);
+      await player.get("cdn/stories/home");
+      expect(await getUnusedFixtures({ store })).toEqual([]);
+    });
+  });
+
+  describe("cv validation", () => {
+    const createSpaceGet = (cv: number, story: string) =>
+      vi.fn(async (slug: string) =>
+        slug === "cdn/spaces/me"
+          ? { data: { space: { version: cv } } }
+          : { data: { story: { name: story }, cv } }
+      );
+
+    it("should refetch entries written under an older cv", async () => {
+      const mockGet = createSpaceGet(200, "Fresh");
+      vi.mocked(useStoryblokApi).mockReturnValue({
+        get: mockGet,
+      } as never);
+
+      const cacheKey = generateCacheKey("cdn/stories/home");
+      writeToCache(
+        cacheKey,
+        { timestamp: Date.now(), cv: 100, data: { data: { story: { name: "Old" } } } },
+        TEST_CACHE_DIR,
+        false
+      );
+
+      const api = useCachedStoryblokApi({
+        enableCache: true,
+        cacheDir: TEST_CACHE_DIR,
+        verbose: false,
+        validateCv: true,
+      });
+
+      const result = await api.get("cdn/stories/home");
+
+      expect(result).toEqual({ data: { story: { name: "Fresh" }, cv: 200 } });
+      expect(readFromCache<{ cv: number }>(cacheKey, TEST_CACHE_DIR, false)?.cv).toBe(200);
+    });
+
+    it("should serve entries with the current cv and check only once per process", async () => {
+      const mockGet = createSpaceGet(100, "Fresh");
+      vi.mocked(useStoryblokApi).mockReturnValue({
+        get: mockGet,
+      } as never);
+
+      writeToCache(
+        generateCacheKey("cdn/stories/home"),
+        { timestamp: Date.now(), cv: 100, data: { data: { story: { name: "Cached" } } } },
+        TEST_CACHE_DIR,
+        false
+      );
+
+      const api = useCachedStoryblokApi({
+        enableCache: true,
+        cacheDir: TEST_CACHE_DIR,
+        verbose: false,
+        validateCv: true,
+      });
+
+      await api.get("cdn/stories/home");
+      const result = await api.get("cdn/stories/home");
+
+      expect(result).toEqual({ data: { story: { name: "Cached" } } });
+      expect(mockGet).toHaveBeenCalledTimes(1);
+      expect(mockGet).toHaveBeenCalledWith("cdn/spaces/me");
+    });
+
+    it("should serve entries written under a cv newer than the checked one", async () => {
+      const mockGet = vi.fn(async (slug: string) =>
+        slug === "cdn/spaces/me"
+          ? { data: { space: { version: 100 } } }
+          : { data: { story: { name: "Published" }, cv: 101 } }
+      );
+      vi.mocked(useStoryblokApi).mockReturnValue({
+        get: mockGet,
+      } as never);
+
+      const api = useCachedStoryblokApi({
+        enableCache: true,
+        cacheDir: TEST_CACHE_DIR,
+        verbose: false,
+        validateCv: true,
+      });
+
+      for (let read = 0; read < 6; read++) {
+        await api.get("cdn/stories/home");
+      }
+
+      expect(mockGet.mock.calls.filter(([slug]) => slug === "cdn/stories/home")).toHaveLength(1);
+    });
+
+    it("should refetch older entries once a response carries a newer cv", async () => {
+      const mockGet = vi.fn(async (slug: string) =>
+        slug === "cdn/spaces/me"
+          ? { data: { space: { version: 100 } } }
+          : { data: { story: { name: slug }, cv: 101 } }
+      );
+      vi.mocked(useStoryblokApi).mockReturnValue({
+        get: mockGet,
+      } as never);
+
+      writeToCache(
+        generateCacheKey("cdn/stories/about"),
+        { timestamp: Date.now(), cv: 100, data: { data: { story: { name: "Cached" } } } },
+        TEST_CACHE_DIR,
+        false
+      );
+
+      const api = useCachedStoryblokApi({
+        enableCache: true,
+        cacheDir: TEST_CACHE_DIR,
+        verbose: false,
+        validateCv: true,
+      });
+
+      await expect(api.get("cdn/stories/about")).resolves.toEqual({ data: { story: { name: "Cached" } } });
+      await api.get("cdn/stories/home");
+      const result = await api.get("cdn/stories/about");
+
+      expect(result).toEqual({ data: { story: { name: "cdn/stories/about" }, cv: 101 } });
+    });
+
+    it("should re-check the cv once the interval has elapsed", async () => {
+      const mockGet = createSpaceGet(100, "Fresh");
+      vi.mocked(useStoryblokApi).mockReturnValue({
+        get: mockGet,
+      } as never);
+
+      writeToCache(
+        generateCacheKey("cdn/stories/home"),
+        { timestamp: Date.now(), cv: 100, data: { data: { story: { name: "Cached" } } } },
+        TEST_CACHE_DIR,
+        false
+      );
+
+      const api = useCachedStoryblokApi({
+        enableCache: true,
+        cacheDir: TEST_CACHE_DIR,
+        verbose: false,
+        validateCv: 0,
+      });
+
+      await api.get("cdn/stories/home");
+      await api.get("cdn/stories/home");
+
+      expect(mockGet.mock.calls.filter(([slug]) => slug === "cdn/spaces/me")).toHaveLength(2);
+    });
+
+    it("should serve cached entries when the cv check fails", async () => {
+      const mockGet = vi.fn().mockRejectedValue(new Error("Unauthorized"));
+      vi.mocked(useStoryblokApi).mockReturnValue({
+        get: mockGet,
+      } as never);
+
+      writeToCache(
+        generateCacheKey("cdn/stories/home"),
+        { timestamp: Date.now(), cv: 100, data: { data: { story: { name: "Cached" } } } },
+        TEST_CACHE_DIR,
+        false
+      );
+
+      const api = useCachedStoryblokApi({
+        enableCache: true,
+        cacheDir: TEST_CACHE_DIR,
+        verbose: false,
+        validateCv: true,
+      });
+
+      await expect(api.get("cdn/stories/home")).resolves.toEqual({
+        data: { story: { name: "Cached" } },
+      });
+    });
+  });
+
+  describe("failure handling", () => {
+    const serverError = { message: "Internal Server Error", status: 500 };
+    const notFound = { message: "Not Found", status: 404 };
+
+    it("should retry server errors", async () => {
+      const mockGet = vi.fn()
+        .mockRejectedValueOnce(serverError)
+        .mockResolvedValueOnce({ data: { story: { name: "Home" } } });
+      vi.mocked(useStoryblokApi).mockReturnValue({
+        get: mockGet,
+      } as never);
+
+      const api = useCachedStoryblokApi({
+        enableCache: true,
+        cacheDir: TEST_CACHE_DIR,
+        verbose: false,
+        retry: { minDelay: 1 },
+      });
+
+      await expect(api.get("cdn/stories/home")).resolves.toEqual({ data: { story: { name: "Home" } } });
+      expect(mockGet).toHaveBeenCalledTimes(2);
+    });
+
+    it("should not retry by default", async () => {
+      const mockGet = vi.fn().mockRejectedValue(serverError);
+      vi.mocked(useStoryblokApi).mockReturnValue({
+        get: mockGet,
+      } as never);
+
+      const api = useCachedStoryblokApi({ enableCache: true, cacheDir: TEST_CACHE_DIR, verbose: false });
+
+      await expect(api.get("cdn/stories/home")).rejects.toEqual(serverError);
+      expect(mockGet).toHaveBeenCalledTimes(1);
+    });
+
+    it("should serve an expired entry when the API keeps failing", async () => {
+      const mockGet = vi.fn().mockRejectedValue(serverError);
+      vi.mocked(useStoryblokApi).mockReturnValue({
+        get: mockGet,
+      } as never);
+
+      writeToCache(
+        generateCacheKey("cdn/stories/home"),
+        { timestamp: 0, data: { data: { story: { name: "Old" } } } },
+        TEST_CACHE_DIR,
+        false
+      );
+
+      const api = useCachedStoryblokApi({
+        enableCache: true,
+        cacheDir: TEST_CACHE_DIR,
+        verbose: false,
+        ttl: 1000,
+        retry: { retries: 2, minDelay: 1 },
+        staleIfError: true,
+      });
+
+      await expect(api.get("cdn/stories/home")).resolves.toEqual({ data: { story: { name: "Old" } } });
+      expect(mockGet).toHaveBeenCalledTimes(3);
+    });
+
+    it("should not serve an expired entry when the story is missing", async () => {
+      vi.mocked(useStoryblokApi).mockReturnValue({
+        get: vi.fn().mockRejectedValue(notFound),
+      } as never);
+
+      writeToCache(
+        generateCacheKey("cdn/stories/home"),
+        { timestamp: 0, data: { data: { story: { name: "Old" } } } },
+        TEST_CACHE_DIR,
+        false
+      );
+
+      const api = useCachedStoryblokApi({
+        enableCache: true,
+        cacheDir: TEST_CACHE_DIR,
+        verbose: false,
+        ttl: 1000,
+        staleIfError: true,
+      });
+
+      await expect(api.get("cdn/stories/home")).rejects.toEqual(notFound);
+    });
+
+    it("should cache 404 responses with negativeCache", async () => {
+      const mockGet = vi.fn().mockRejectedValue(notFound);
+      vi.mocked(useStoryblokApi).mockReturnValue({
+        get: mockGet,
+      } as never);
+
+      const api = useCachedStoryblokApi({
+        enableCache: true,
+        cacheDir: TEST_CACHE_DIR,
+        verbose: false,
+        negativeCache: true,
+      });
+
+      await expect(api.get("cdn/stories/missing")).rejects.toEqual(notFound);
+      await expect(api.get("cdn/stories/missing")).rejects.toEqual(notFound);
+
+      expect(mockGet).toHaveBeenCalledTimes(1);
+      expect(readFromCache(generateCacheKey("cdn/stories/missing"), TEST_CACHE_DIR, false)).toMatchObject({
+        data: null,
+        error: { status: 404, message: "Not Found" },
+      });
+    });
+
+    it("should retry cached failures after the negative TTL", async () => {
+      const mockGet = vi.fn()
+        .mockRejectedValueOnce(notFound)
+        .mockResolvedValueOnce({ data: { story: { name: "Created" } } });
+      vi.mocked(useStoryblokApi).mockReturnValue({
+        get: mockGet,
+      } as never);
+
+      writeToCache(
+        generateCacheKey("cdn/stories/new"),
+        { timestamp: Date.now() - 2000, data: null, error: { status: 404 } },
+        TEST_CACHE_DIR,
+        false
+      );
+
+      const api = useCachedStoryblokApi({
+        enableCache: true,
+        cacheDir: TEST_CACHE_DIR,
+        verbose: false,
+        negativeCache: { ttl: 1000 },
+      });
+
+      await expect(api.get("cdn/stories/new")).rejects.toEqual(notFound);
+      await expect(api.get("cdn/stories/new")).rejects.toEqual(notFound);
+      await expect(api.get("cdn/stories/new", { version: "draft" })).resolves.toEqual({
+        data: { story: { name: "Created" } },
+      });
+      expect(mockGet).toHaveBeenCalledTimes(2);
+    });
+
+    it("should not cache server errors", async () => {
+      const mockGet = vi.fn().mockRejectedValue(serverError);
+      vi.mocked(useStoryblokApi).mockReturnValue({
+        get: mockGet,
+      } as never);
+
+      const api = useCachedStoryblokApi({
+        enableCache: true,
+        cacheDir: TEST_CACHE_DIR,
+        verbose: false,
+        negativeCache: true,
+      });
+
+      await expect(api.get("cdn/stories/home")).rejects.toEqual(serverError);
+      await expect(api.get("cdn/stories/home")).rejects.toEqual(serverError);
+      expect(mockGet).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe("cache keys", () => {
+    it("should never write the access token into the key or the entry", async () => {
+      vi.mocked(useStoryblokApi).mockReturnValue({
+        get: vi.fn().mockResolvedValue({ data: { story: { name: "Home" } } }),
+      } as never);
+
+      const api = useCachedStoryblokApi({ enableCache: true, cacheDir: TEST_CACHE_DIR, verbose: false });
+      await api.get("cdn/stories/home", { version: "draft", token: "secret-token" });
+
+      const [key] = listCacheKeys(TEST_CACHE_DIR);
+      expect(key).toBe(generateCacheKey("cdn/stories/home", { version: "draft" }));
+      expect(readFileSync(join(TEST_CACHE_PATH, key as string), "utf-8")).not.toContain("secret-token");
+    });
+
+    it("should share entries across ignored params", async () => {
+      const mockGet = vi.fn().mockResolvedValue({ data: { story: { name: "Home" } } });
+      vi.mocked(useStoryblokApi).mockReturnValue({
+        get: mockGet,
+      } as never);
+
+      const api = useCachedStoryblokApi({
+        enableCache: true,
+        cacheDir: TEST_CACHE_DIR,
+        verbose: false,
+        cacheKey: { ignoreParams: ["cv", "_t"] },
+      });
+      await api.get("cdn/stories/home", { cv: 1, _t: 100 } as ISbStoryParams);
+      await api.get("cdn/stories/home", { cv: 2, _t: 200 } as ISbStoryParams);
+
+      expect(mockGet).toHaveBeenCalledTimes(1);
+      expect(listCacheKeys(TEST_CACHE_DIR)).toHaveLength(1);
+    });
+  });
+
+  describe("namespaces", () => {
+    const mockClient = (accessToken: string, mockGet = vi.fn()) => {
+      vi.mocked(useStoryblokApi).mockReturnValue({
+        accessToken,
+        get: mockGet,
+      } as never);
+      return mockGet;
+    };
+
+    it("should partition entries by token and version", async () => {
+      const previewGet = mockClient("preview-token").mockResolvedValue({ data: { story: { name: "Preview" } } });
+      const preview = useCachedStoryblokApi({ enableCache: true, cacheDir: TEST_CACHE_DIR, verbose: false });
+      await preview.get("cdn/stories/home", { version: "draft" });
+      await preview.get("cdn/stories/home");
+
+      mockClient("public-token").mockResolvedValue({ data: { story: { name: "Public" } } });
+      const pub = useCachedStoryblokApi({ enableCache: true, cacheDir: TEST_CACHE_DIR, verbose: false });
+
+      await expect(pub.get("cdn/stories/home", { version: "draft" })).resolves.toEqual({
+        data: { story: { name: "Public" } },
+      });
+      expect(previewGet).toHaveBeenCalledTimes(2);
+      expect(listNamespaces(TEST_CACHE_DIR)).toEqual([
+        `${tokenFingerprint("preview-token")}/draft`,
+        `${tokenFingerprint("preview-token")}/published`,
+        `${tokenFingerprint("public-token")}/draft`,
+      ].sort());
+      expect(listCacheKeys(TEST_CACHE_DIR)).toEqual([]);
+    });
+
+    it("should use an explicit namespace instead of the token", async () => {
+      mockClient("preview-token").mockResolvedValue({ data: {} });
+      const api = useCachedStoryblokApi({
+        enableCache: true,
+        cacheDir: TEST_CACHE_DIR,
+        verbose: false,
+        namespace: "staging",
+      });
+
+      await api.get("cdn/stories/home", { version: "draft" });
+
+      expect(listNamespaces(TEST_CACHE_DIR)).toEqual(["staging/draft"]);
+    });
+
+    it("should keep entries flat with namespace: false", async () => {
+      mockClient("preview-token").mockResolvedValue({ data: {} });
+      const api = useCachedStoryblokApi({
+        enableCache: true,
+        cacheDir: TEST_CACHE_DIR,
+        verbose: false,
+        namespace: false,
+      });
+
+      await api.get("cdn/stories/home", { version: "draft" });
+
+      expect(listNamespaces(TEST_CACHE_DIR)).toEqual([]);
+      expect(listCacheKeys(TEST_CACHE_DIR)).toEqual([generateCacheKey("cdn/stories/home", { version: "draft" })]);
+    });
+
+    it("should invalidate entries in every namespace", async () => {
+      mockClient("preview-token").mockResolvedValue({ data: { story: { id: 7, full_slug: "home" } } });
+      const api = useCachedStoryblokApi({ enableCache: true, cacheDir: TEST_CACHE_DIR, verbose: false });
+      await api.get("cdn/stories/home", { version: "draft" });
+
+      const invalidated = await invalidateEntries({ storyId: 7 }, { cacheDir: TEST_CACHE_DIR, verbose: false });
+
+      expect(invalidated).toEqual([
+        `${tokenFingerprint("preview-token")}/draft/${generateCacheKey("cdn/stories/home", { version: "draft" })}`,
+      ]);
+      expect(listNamespaces(TEST_CACHE_DIR)).toEqual([]);
+    });
+  });
+
+  describe("snapshot mode", () => {
+    const snapshotFile = join(TEST_CACHE_DIR + "-snapshots", "release.json");
+
+    afterEach(() => {
+      rmSync(join(process.cwd(), TEST_CACHE_DIR + "-snapshots"), { recursive: true, force: true });
+    });
+
+    it("should serve the snapshot without querying the API", async () => {
+      writeToCache(
+        generateCacheKey("cdn/stories/home"),
+        { timestamp: 0, data: { data: { story: { name: "Released" } } } },
+        TEST_CACHE_DIR,
+        false
+      );
+      exportSnapshot(snapshotFile, { cacheDir: TEST_CACHE_DIR });
+      clearCache(TEST_CACHE_DIR);
+      const mockGet = vi.fn();
+      vi.mocked(useStoryblokApi).mockReturnValue({
+        get: mockGet,
+      } as never);
+
+      const api = useCachedStoryblokApi({
+        mode: "snapshot",
+        snapshot: snapshotFile,
+        cacheDir: TEST_CACHE_DIR,
+        verbose: false,
+        ttl: 1000,
+      });
+
+      await expect(api.get("cdn/stories/home")).resolves.toEqual({ data: { story: { name: "Released" } } });
+      await expect(api.get("cdn/stories/about")).rejects.toThrow(CacheMissError);
+      expect(mockGet).not.toHaveBeenCalled();
+    });
+
+    it("should serve a snapshot taken under another token, or none", async () => {
+      const file = join(TEST_CACHE_DIR + "-snapshots", "dev.json");
+      writeToCache(
+        generateCacheKey("cdn/stories/home"),
+        { timestamp: 0, data: { data: { story: { name: "Released" } } } },
+        join(TEST_CACHE_DIR, tokenFingerprint("dev-token"), "published"),
+        false
+      );
+      exportSnapshot(file, { cacheDir: TEST_CACHE_DIR });
+      clearCache(TEST_CACHE_DIR);
+      const options = { mode: "snapshot" as const, snapshot: file, cacheDir: TEST_CACHE_DIR, verbose: false };
+
+      const withoutToken = createCachedClient({ get: vi.fn() } as never, options);
+      const otherToken = createCachedClient({ get: vi.fn(), accessToken: "ci-token" } as never, options);
+
+      await expect(withoutToken.get("cdn/stories/home")).resolves.toEqual({ data: { story: { name: "Released" } } });
+      await expect(otherToken.get("cdn/stories/home")).resolves.toEqual({ data: { story: { name: "Released" } } });
+    });
+
+    it("should pick the token's own space from a snapshot of several", async () => {
+      const file = join(TEST_CACHE_DIR + "-snapshots", "spaces.json");
+      ["dev-token", "other-token"].forEach((token) => {
+        writeToCache(
+          generateCacheKey("cdn/stories/home"),
+          { timestamp: 0, data: { data: { story: { name: token } } } },
+          join(TEST_CACHE_DIR, tokenFingerprint(token), "published"),
+          false
+        );
+      });
+      exportSnapshot(file, { cacheDir: TEST_CACHE_DIR });
+      clearCache(TEST_CACHE_DIR);
+      const options = { mode: "snapshot" as const, snapshot: file, cacheDir: TEST_CACHE_DIR, verbose: false };
+
+      const own = createCachedClient({ get: vi.fn(), accessToken: "other-token" } as never, options);
+
+      await expect(own.get("cdn/stories/home")).resolves.toEqual({ data: { story: { name: "other-token" } } });
+      expect(() => createCachedClient({ get: vi.fn() } as never, options)).toThrow(/pass the namespace option/);
+    });
+
+    it("should require a snapshot file", () => {
+      vi.mocked(useStoryblokApi).mockReturnValue({ get: vi.fn() } as never);
+
+      expect(() => useCachedStoryblokApi({ mode: "snapshot", verbose: false })).toThrow(/requires the snapshot option/);
+    });
+  });
+
+  describe("size limits", () => {
+    it("should evict entries after a write pushes the cache over maxEntries", async () => {
+      const mockGet = vi.fn().mockResolvedValue({ data: { story: { name: "Test" } } });
+      vi.mocked(useStoryblokApi).mockReturnValue({
+        get: mockGet,
+      } as never);
+      const now = vi.spyOn(Date, "now");
+
+      const api = useCachedStoryblokApi({
+        enableCache: true,
+        cacheDir: TEST_CACHE_DIR,
+        verbose: false,
+        maxEntries: 2,
+      });
+      now.mockReturnValue(1000);
+      await api.get("cdn/stories/a");
+      now.mockReturnValue(2000);
+      await api.get("cdn/stories/b");
+      now.mockReturnValue(3000);
+      await api.get("cdn/stories/a");
+      now.mockReturnValue(4000);
+      await api.get("cdn/stories/c");
+      now.mockRestore();
+
+      expect(listCacheKeys(TEST_CACHE_DIR).sort()).toEqual(
+        [generateCacheKey("cdn/stories/a"), generateCacheKey("cdn/stories/c")].sort()
+      );
+    });
+
+    it("should count memory tier hits as reads for LRU eviction", async () => {
+      clearCache(TEST_CACHE_DIR);
+      const mockGet = vi.fn().mockResolvedValue({ data: { story: { name: "Test" } } });
+      vi.mocked(useStoryblokApi).mockReturnValue({
+        get: mockGet,
+      } as never);
+      const now = vi.spyOn(Date, "now");
+
+      const api = useCachedStoryblokApi({
+        enableCache: true,
+        cacheDir: TEST_CACHE_DIR,
+        verbose: false,
+        memoryCache: true,
+        maxEntries: 2,
+      });
+      now.mockReturnValue(1000);
+      await api.get("cdn/stories/hot");
+      now.mockReturnValue(2000);
+      await api.get("cdn/stories/cold");
+      for (let time = 3000; time < 8000; time += 1000) {
+        now.mockReturnValue(time);
+        await api.get("cdn/stories/hot");
+      }
+      now.mockReturnValue(9000);
+      await api.get("cdn/stories/new");
+      now.mockRestore();
+
+      expect(mockGet).toHaveBeenCalledTimes(3);
+      expect(listCacheKeys(TEST_CACHE_DIR).sort()).toEqual(
+        [generateCacheKey("cdn/stories/hot"), generateCacheKey("cdn/stories/new")].sort()
+      );
+    });
+
+    it("should leave custom stores alone", async () => {
+      vi.mocked(useStoryblokApi).mockReturnValue({
+        get: vi.fn().mockResolvedValue({ data: {} }),
+      } as never);
+      const store = new MemoryStore();
+
+      const api = useCachedStoryblokApi({ enableCache: true, verbose: false, store, maxEntries: 1 });
+      await api.get("cdn/stories/a");
+      await api.get("cdn/stories/b");
+
+      expect(await store.list()).toHaveLength(2);
+    });
+  });
+
+  describe("client wrapper", () => {
+    it("should leave the original client untouched", async () => {
+      const mockGet = vi.fn().mockResolvedValue({ data: { story: { name: "Home" } } });
+      const client = { get: mockGet };
+      vi.mocked(useStoryblokApi).mockReturnValue(client as never);
+
+      const api = useCachedStoryblokApi({ enableCache: true, cacheDir: TEST_CACHE_DIR, verbose: false });
+      await api.get("cdn/stories/home");
+      await client.get("cdn/stories/home");
+
+      expect(client.get).toBe(mockGet);
+      expect(mockGet).toHaveBeenCalledTimes(2);
+      expect(isCachedClient(client)).toBe(false);
+      expect(isCachedClient(api)).toBe(true);
+    });
+
+    it("should keep wrappers with different options independent", async () => {
+      const mockGet = vi.fn().mockResolvedValue({ data: { story: { name: "Home" } } });
+      vi.mocked(useStoryblokApi).mockReturnValue({ get: mockGet } as never);
+
+      const cached = useCachedStoryblokApi({ enableCache: true, cacheDir: TEST_CACHE_DIR, verbose: false });
+      const refreshing = useCachedStoryblokApi({
+        mode: "refresh",
+        cacheDir: TEST_CACHE_DIR,
+        verbose: false,
+      });
+
+      await cached.get("cdn/stories/home");
+      await refreshing.get("cdn/stories/home");
+      await cached.get("cdn/stories/home");
+
+      expect(mockGet).toHaveBeenCalledTimes(2);
+    });
+
+    it("should bypass the cache through uncached", async () => {
+      const mockGet = vi.fn().mockResolvedValue({ data: { story: { name: "Home" } } });
+      const client = { get: mockGet };
+      vi.mocked(useStoryblokApi).mockReturnValue(client as never);
+
+      const api = useCachedStoryblokApi({ enableCache: true, cacheDir: TEST_CACHE_DIR, verbose: false });
+      await api.get("cdn/stories/home");
+      await api.uncached.get("cdn/stories/home");
+
+      expect(api.uncached).toBe(client);
+      expect(mockGet).toHaveBeenCalledTimes(2);
+    });
+
+    it("should call other methods on the original client", () => {
+      const client = {
+        get: vi.fn(),
+        accessToken: "token",
+        flushCache() {
+          return this;
+        },
+      };
+      vi.mocked(useStoryblokApi).mockReturnValue(client as never);
+
+      const api = useCachedStoryblokApi({ enableCache: true, cacheDir: TEST_CACHE_DIR, verbose: false });
+
+      expect(api.flushCache()).toBe(client);
+      expect(api.flushCache).toBe(api.flushCache);
+      expect((api as unknown as { accessToken: string }).accessToken).toBe("token");
+    });
+
+    it("should refuse to wrap a cached client", () => {
+      vi.mocked(useStoryblokApi).mockReturnValue({ get: vi.fn() } as never);
+      const api = useCachedStoryblokApi({ enableCache: true, cacheDir: TEST_CACHE_DIR, verbose: false });
+      vi.mocked(useStoryblokApi).mockReturnValue(api);
+
+      expect(() => useCachedStoryblokApi({ verbose: false })).toThrow(AlreadyCachedError);
+    });
+  });
+
+  describe("logger and hooks", () => {
+    beforeEach(() => {
+      resetCacheStats();
+    });
+
+    it("should write log output to the given logger", async () => {
+      const mockGet = vi.fn().mockResolvedValue({ data: { story: { name: "Home" } } });
+      vi.mocked(useStoryblokApi).mockReturnValue({
+        get: mockGet,
+      } as never);
+      const logger = { log: vi.fn(), warn: vi.fn() };
+      const consoleLog = vi.spyOn(console, "log").mockImplementation(() => undefined);
+
+      const api = useCachedStoryblokApi({ enableCache: true, cacheDir: TEST_CACHE_DIR, logger });
+      await api.get("cdn/stories/home");
+      await api.get("cdn/stories/home");
+
+      expect(logger.log).toHaveBeenCalledWith("[Cache] → Querying API: cdn/stories/home");
+      expect(logger.log).toHaveBeenCalledWith("[Cache] ✓ Loaded from cache: cdn/stories/home");
+      expect(consoleLog).not.toHaveBeenCalled();
+      consoleLog.mockRestore();
+    });
+
+    it("should not write to the logger when verbose is false", async () => {
+      const mockGet = vi.fn().mockResolvedValue({ data: { story: { name: "Home" } } });
+      vi.mocked(useStoryblokApi).mockReturnValue({
+        get: mockGet,
+      } as never);
+      const logger = { log: vi.fn(), warn: vi.fn() };
+
+      const api = useCachedStoryblokApi({ enableCache: true, cacheDir: TEST_CACHE_DIR, verbose: false, logger });
+      await api.get("cdn/stories/home");
+
+      expect(logger.log).not.toHaveBeenCalled();
+    });
+
+    it("should report misses, writes and hits", async () => {
+      const mockGet = vi.fn().mockResolvedValue({ data: { story: { name: "Home" } } });
+      vi.mocked(useStoryblokApi).mockReturnValue({
+        get: mockGet,
+      } as never);
+      const onHit = vi.fn();
+      const onMiss = vi.fn();
+      const onWrite = vi.fn();
+
+      const api = useCachedStoryblokApi({
+        enableCache: true,
+        cacheDir: TEST_CACHE_DIR,
+        verbose: false,
+        onHit,
+        onMiss,
+        onWrite,
+      });
+      await api.get("cdn/stories/home", { version: "draft", token: "secret" } as ISbStoryParams);
+      await api.get("cdn/stories/home", { version: "draft", token: "secret" } as ISbStoryParams);
+
+      const cacheKey = generateCacheKey("cdn/stories/home", { version: "draft" });
+      const request = { slug: "cdn/stories/home", params: { version: "draft" }, cacheKey };
+      expect(onMiss).toHaveBeenCalledExactlyOnceWith({ ...request, reason: "missing" });
+      expect(onWrite).toHaveBeenCalledExactlyOnceWith({
+        ...request,
+        bytes: expect.any(Number),
+        latency: expect.any(Number),
+      });
+      expect(onHit).toHaveBeenCalledExactlyOnceWith({ ...request, tier: "store", stale: false });
+    });
+
+    it("should report expired entries as misses", async () => {
+      const mockGet = vi.fn().mockResolvedValue({ data: { story: { name: "Home" } } });
+      vi.mocked(useStoryblokApi).mockReturnValue({
+        get: mockGet,
+      } as never);
+      mkdirSync(TEST_CACHE_PATH, { recursive: true });
+      writeFileSync(
+        join(TEST_CACHE_PATH, generateCacheKey("cdn/stories/home")),
+        JSON.stringify({ timestamp: 0, data: { data: { story: { name: "Old" } } } }),
+        "utf-8"
+      );
+      const onMiss = vi.fn();
+
+      const api = useCachedStoryblokApi({
+        enableCache: true,
+        cacheDir: TEST_CACHE_DIR,
+        verbose: false,
+        ttl: 1000,
+        onMiss,
+      });
+      await api.get("cdn/stories/home");
+
+      expect(onMiss).toHaveBeenCalledWith(expect.objectContaining({ reason: "expired" }));
+    });
+
+    it("should report failed requests", async () => {
+      const serverError = { message: "Internal Server Error", status: 500 };
+      vi.mocked(useStoryblokApi).mockReturnValue({
+        get: vi.fn().mockRejectedValue(serverError),
+      } as never);
+      const onError = vi.fn();
+
+      const api = useCachedStoryblokApi({ enableCache: true, cacheDir: TEST_CACHE_DIR, verbose: false, onError });
+
+      await expect(api.get("cdn/stories/home")).rejects.toEqual(serverError);
+      expect(onError).toHaveBeenCalledWith(expect.objectContaining({ slug: "cdn/stories/home", error: serverError }));
+      expect(getCacheStats().upstream).toMatchObject({ requests: 1, errors: 1 });
+    });
+
+    it("should keep serving when a hook throws", async () => {
+      const mockGet = vi.fn().mockResolvedValue({ data: { story: { name: "Home" } } });
+      vi.mocked(useStoryblokApi).mockReturnValue({
+        get: mockGet,
+      } as never);
+      const logger = { log: vi.fn(), warn: vi.fn() };
+
+      const api = useCachedStoryblokApi({
+        enableCache: true,
+        cacheDir: TEST_CACHE_DIR,
+        logger,
+        onMiss: () => {
+          throw new Error("telemetry down");
+        },
+      });
+
+      await expect(api.get("cdn/stories/home")).resolves.toEqual({ data: { story: { name: "Home" } } });
+      expect(logger.warn).toHaveBeenCalledWith("[Cache] Error in onMiss hook:", expect.any(Error));
+    });
+
+    it("should report entries invalidated in its cache", async () => {
+      const mockGet = vi.fn().mockResolvedValue({ data: { story: { id: 42, full_slug: "blog/post" } } });
+      vi.mocked(useStoryblokApi).mockReturnValue({
+        get: mockGet,
+      } as never);
+      const store = new MemoryStore();
+      const onInvalidate = vi.fn();
+
+      const api = useCachedStoryblokApi({ enableCache: true, verbose: false, store, onInvalidate });
+      await api.get("cdn/stories/blog/post");
+      await invalidateEntries({ storyId: 42 }, { store, verbose: false });
+
+      expect(onInvalidate).toHaveBeenCalledExactlyOnceWith({
+        target: { storyId: 42 },
+        keys: [generateCacheKey("cdn/stories/blog/post")],
+      });
+    });
+
+    it("should release the onInvalidate hook of a discarded wrapper", async () => {
+      v8.setFlagsFromString("--expose-gc");
+      const gc = runInNewContext("gc") as () => void;
+      vi.mocked(useStoryblokApi).mockReturnValue({
+        get: vi.fn().mockResolvedValue({ data: { story: { id: 42 } } }),
+      } as never);
+      const store = new MemoryStore();
+      const onInvalidate = vi.fn();
+
+      await useCachedStoryblokApi({ enableCache: true, verbose: false, store, onInvalidate }).get("cdn/stories/home");
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      gc();
+      await invalidateEntries({ storyId: 42 }, { store, verbose: false });
+
+      expect(onInvalidate).not.toHaveBeenCalled();
+    });
+
+    it("should count bytes and upstream latency", async () => {
+      const response = { data: { story: { name: "Home" } } };
+      vi.mocked(useStoryblokApi).mockReturnValue({
+        get: vi.fn().mockResolvedValue(response),
+      } as never);
+
+      const api = useCachedStoryblokApi({ enableCache: true, cacheDir: TEST_CACHE_DIR, verbose: false });
+      await api.get("cdn/stories/home");
+      await api.get("cdn/stories/home");
+
+      const stats = getCacheStats();
+      expect(stats.bytesWritten).toBeGreaterThan(JSON.stringify(response).length);
+      expect(stats.bytesRead).toBe(stats.bytesWritten);
+      expect(stats.upstream).toMatchObject({ requests: 1, errors: 0 });
+      expect(stats.upstream.maxLatency).toBe(stats.upstream.totalLatency);
+    });
+  });
+
+  describe("cache directives", () => {
+    it("should strip the directive from the cache key and the API params", async () => {
+      const mockGet = vi.fn().mockResolvedValue({ data: { story: { name: "Home" } } });
+      vi.mocked(useStoryblokApi).mockReturnValue({
+        get: mockGet,
+      } as never);
+      const store = new MemoryStore();
+
+      const api = useCachedStoryblokApi({ enableCache: true, verbose: false, store });
+      await api.get("cdn/stories/home", { version: "draft", cache: { ttl: 1000 } });
+
+      expect(mockGet).toHaveBeenCalledWith("cdn/stories/home", { version: "draft" }, undefined);
+      expect(await store.list()).toEqual([generateCacheKey("cdn/stories/home", { version: "draft" })]);
+    });
+
+    it("should bypass the cache", async () => {
+      const mockGet = vi.fn().mockResolvedValue({ data: { story: { name: "Preview" } } });
+      vi.mocked(useStoryblokApi).mockReturnValue({
+        get: mockGet,
+      } as never);
+      const store = new MemoryStore();
+
+      const api = useCachedStoryblokApi({ enableCache: true, verbose: false, store });
+      await api.get("cdn/stories/preview", { cache: "bypass" });
+      await api.get("cdn/stories/preview", { cache: "bypass" });
+
+      expect(mockGet).toHaveBeenCalledTimes(2);
+      expect(await store.list()).toEqual([]);
+    });
+
+    it("should refresh a cached entry", async () => {
+      const mockGet = vi.fn()
+        .mockResolvedValueOnce({ data: { story: { name: "Old" } } })
+        .mockResolvedValueOnce({ data: { story: { name: "New" } } });
+      vi.mocked(useStoryblokApi).mockReturnValue({
+        get: mockGet,
+      } as never);
+
+      const api = useCachedStoryblokApi({ enableCache: true, verbose: false, store: new MemoryStore() });
+      await api.get("cdn/stories/home");
+      await api.get("cdn/stories/home", { cache: "refresh" });
+
+      expect(await api.get("cdn/stories/home")).toEqual({ data: { story: { name: "New" } } });
+      expect(mockGet).toHaveBeenCalledTimes(2);
+    });
+
+    it("should only serve cached entries when asked to", async () => {
+      const mockGet = vi.fn().mockResolvedValue({ data: { story: { name: "Home" } } });
+      vi.mocked(useStoryblokApi).mockReturnValue({
+        get: mockGet,
+      } as never);
+
+      const api = useCachedStoryblokApi({ enableCache: true, verbose: false, store: new MemoryStore(), ttl: 1 });
+      await expect(api.get("cdn/stories/home", { cache: "only-if-cached" })).rejects.toThrow(CacheMissError);
+
+      await api.get("cdn/stories/home");
+      await new Promise((resolve) => setTimeout(resolve, 5));
+
+      // Expired, but still served without a request
+      await expect(api.get("cdn/stories/home", { cache: "only-if-cached" })).resolves.toEqual({
+        data: { story: { name: "Home" } },
+      });
+      expect(mockGet).toHaveBeenCalledTimes(1);
+    });
+
+    it("should apply a per-request ttl", async () => {
+      const mockGet = vi.fn().mockResolvedValue({ data: { datasource_entries: [] } });
+      vi.mocked(useStoryblokApi).mockReturnValue({
+        get: mockGet,
+      } as never);
+
+      const api = useCachedStoryblokApi({ enableCache: true, verbose: false, store: new MemoryStore(), ttl: 1 });
+      await api.get("cdn/datasource_entries", { cache: { ttl: 86_400_000 } });
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      await api.get("cdn/datasource_entries", { cache: { ttl: 86_400_000 } });
+
+      expect(mockGet).toHaveBeenCalledTimes(1);
+    });
+
+    it("should invalidate entries by tag", async () => {
+      const mockGet = vi.fn().mockResolvedValue({ data: { datasource_entries: [] } });
+      vi.mocked(useStoryblokApi).mockReturnValue({
+        get: mockGet,
+      } as never);
+      const store = new MemoryStore();
+
+      const api = useCachedStoryblokApi({ enableCache: true, verbose: false, store });
+      await api.get("cdn/datasource_entries", { datasource: "footer", cache: { tags: ["navigation"] } });
+      await api.get("cdn/stories/home");
+
+      expect(await invalidateEntries({ tag: "navigation" }, { store, verbose: false })).toEqual([
+        generateCacheKey("cdn/datasource_entries", { datasource: "footer" }),
+      ]);
+      expect(await store.list()).toEqual([generateCacheKey("cdn/stories/home")]);
+    });
+  });
+
+  describe("invalidation", () => {
+    it("should index responses written after the reverse index was built", async () => {
+      const mockGet = vi.fn().mockResolvedValue({
+        data: { story: { id: 42, full_slug: "blog/post" } },
+      });
+      vi.mocked(useStoryblokApi).mockReturnValue({
+        get: mockGet,
+      } as never);
+
+      const store = new MemoryStore();
+      const api = useCachedStoryblokApi({ enableCache: true, verbose: false, store });
+
+      // Builds the (empty) index for the store
+      expect(await invalidateEntries({ storyId: 42 }, { store, verbose: false })).toEqual([]);
+
+      await api.get("cdn/stories/blog/post", { version: "draft" });
+      const invalidated = await invalidateEntries({ slug: "blog/post" }, { store, verbose: false });
+
+      expect(invalidated).toEqual([generateCacheKey("cdn/stories/blog/post", { version: "draft" })]);
+      await api.get("cdn/stories/blog/post", { version: "draft" });
+      expect(mockGet).toHaveBeenCalledTimes(2);
+    });
+  });
 });
@@ -0,0 +1,163 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { existsSync, rmSync } from "node:fs";
+import { EventEmitter } from "node:events";
+import { join, resolve } from "node:path";
+import { storyblokCache } from "../src/integration";
+import { clearDevCaches, trackPage, withDevTools } from "../src/dev-tools";
+import { createCachedClient, generateCacheKey } from "../src/index";
+import { TOOLBAR_APP_ID, TOOLBAR_EVENTS } from "../src/toolbar-events";
+
+const TEST_CACHE_DIR = ".test-cache-integration";
+
+function setupConfig(command: string, options = {}) {
+  const addMiddleware = vi.fn();
+  const addDevToolbarApp = vi.fn();
+  const setup = storyblokCache(options).hooks["astro:config:setup"] as (options: unknown) => void;
+  setup({ command, addMiddleware, addDevToolbarApp });
+  return { addMiddleware, addDevToolbarApp };
+}
+
+function setupServer(options = {}) {
+  const watcher = Object.assign(new EventEmitter(), { add: vi.fn() });
+  const httpServer = new EventEmitter();
+  const server = { watcher, httpServer, ws: { send: vi.fn() } };
+  const handlers = new Map<string, (data: unknown) => void>();
+  const toolbar = {
+    on: (event: string, callback: (data: unknown) => void) => handlers.set(event, callback),
+    send: vi.fn(),
+  };
+  const logger = { info: vi.fn(), warn: vi.fn() };
+
+  const setup = storyblokCache(options).hooks["astro:server:setup"] as (options: unknown) => void;
+  setup({ server, toolbar, logger });
+
+  return {
+    server,
+    toolbar,
+    // Simulates a message from the toolbar app
+    message: (event: string, data: unknown) => handlers.get(event)?.(data),
+    close: () => httpServer.emit("close"),
+  };
+}
+
+describe("storyblokCache", () => {
+  it("should add the middleware and toolbar app in dev", () => {
+    const { addMiddleware, addDevToolbarApp } = setupConfig("dev");
+
+    expect(addMiddleware).toHaveBeenCalledWith({ order: "pre", entrypoint: expect.any(URL) });
+    expect(addDevToolbarApp).toHaveBeenCalledWith(expect.objectContaining({ id: TOOLBAR_APP_ID }));
+  });
+
+  it("should do nothing outside dev", () => {
+    const { addMiddleware, addDevToolbarApp } = setupConfig("build");
+
+    expect(addMiddleware).not.toHaveBeenCalled();
+    expect(addDevToolbarApp).not.toHaveBeenCalled();
+  });
+
+  it("should leave out the toolbar app when disabled", () => {
+    const { addMiddleware, addDevToolbarApp } = setupConfig("dev", { toolbar: false });
+
+    expect(addMiddleware).toHaveBeenCalled();
+    expect(addDevToolbarApp).not.toHaveBeenCalled();
+  });
+
+  describe("dev server", () => {
+    let dev: ReturnType<typeof setupServer>;
+    const entryPath = (key: string) => join(resolve(TEST_CACHE_DIR), key);
+
+    const createClient = () =>
+      createCachedClient(
+        { get: vi.fn().mockResolvedValue({ data: { story: { name: "Home" } } }) } as never,
+        withDevTools({ enableCache: true, cacheDir: TEST_CACHE_DIR, namespace: false, verbose: false })
+      );
+
+    beforeEach(() => {
+      vi.useFakeTimers({ toFake: ["setTimeout", "clearTimeout"] });
+    });
+
+    afterEach(async () => {
+      dev.close();
+      vi.useRealTimers();
+      await clearDevCaches();
+      if (existsSync(resolve(TEST_CACHE_DIR))) {
+        rmSync(resolve(TEST_CACHE_DIR), { recursive: true });
+      }
+    });
+
+    it("should watch the cache directories of wrappers", () => {
+      dev = setupServer();
+      createClient();
+
+      expect(dev.server.watcher.add).toHaveBeenCalledWith(resolve(TEST_CACHE_DIR));
+    });
+
+    it("should reload once when entries change on disk", () => {
+      dev = setupServer();
+      createClient();
+
+      dev.server.watcher.emit("all", "unlink", entryPath("a.json"));
+      dev.server.watcher.emit("all", "change", entryPath("b.json"));
+      vi.runAllTimers();
+
+      expect(dev.server.ws.send).toHaveBeenCalledExactlyOnceWith({ type: "full-reload" });
+    });
+
+    it("should ignore files that are not entries", () => {
+      dev = setupServer();
+      createClient();
+
+      dev.server.watcher.emit("all", "change", join(resolve(TEST_CACHE_DIR), ".manifest"));
+      dev.server.watcher.emit("all", "add", join(resolve(TEST_CACHE_DIR), ".quarantine", "a.json"));
+      dev.server.watcher.emit("all", "change", resolve("src/pages/index.json"));
+      vi.runAllTimers();
+
+      expect(dev.server.ws.send).not.toHaveBeenCalled();
+    });
+
+    it("should not reload for its own writes", async () => {
+      dev = setupServer();
+      await createClient().get("cdn/stories/home");
+
+      dev.server.watcher.emit("all", "add", entryPath(generateCacheKey("cdn/stories/home")));
+      vi.runAllTimers();
+
+      expect(dev.server.ws.send).not.toHaveBeenCalled();
+    });
+
+    it("should not reload on changes when disabled", () => {
+      dev = setupServer({ reload: false });
+      createClient();
+
+      dev.server.watcher.emit("all", "unlink", entryPath("a.json"));
+      vi.runAllTimers();
+
+      expect(dev.server.ws.send).not.toHaveBeenCalled();
+    });
+
+    it("should answer the toolbar app with the entries of a page", async () => {
+      dev = setupServer();
+      const api = createClient();
+      await trackPage("/", () => api.get("cdn/stories/home"));
+
+      dev.message(TOOLBAR_EVENTS.list, { pathname: "/" });
+
+      expect(dev.toolbar.send).toHaveBeenCalledWith(TOOLBAR_EVENTS.entries, {
+        pathname: "/",
+        entries: [expect.objectContaining({ slug: "cdn/stories/home", source: "api" })],
+      });
+    });
+
+    it("should refetch entries and reload when the toolbar app asks", async () => {
+      dev = setupServer({ reload: false });
+      const api = createClient();
+      await trackPage("/", () => api.get("cdn/stories/home"));
+
+      dev.message(TOOLBAR_EVENTS.refresh, { pathname: "/" });
+      await vi.waitFor(() => {
+        vi.runAllTimers();
+        expect(dev.server.ws.send).toHaveBeenCalledWith({ type: "full-reload" });
+      });
+    });
+  });
+});
@@ -0,0 +1,197 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { existsSync, readFileSync, rmSync, unlinkSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { clearCache, deleteFromCache, generateCacheKey, readFromCache, writeToCache } from "../src/cache";
+import { MANIFEST_FILE, flushManifest, listCacheEntries, repairManifest } from "../src/manifest";
+import { normalizeParams } from "../src/params";
+
+const TEST_CACHE_DIR = ".test-cache-manifest";
+const TEST_CACHE_PATH = join(process.cwd(), TEST_CACHE_DIR);
+const MANIFEST_PATH = join(TEST_CACHE_PATH, MANIFEST_FILE);
+
+function writeStory(slug: string, id: number, params: Record<string, unknown> = {}, timestamp = Date.now()) {
+  const key = generateCacheKey(slug, params);
+  writeToCache(
+    key,
+    { timestamp, slug, params, cv: 100, data: { data: { story: { id, full_slug: slug.replace("cdn/stories/", "") } } } },
+    TEST_CACHE_DIR,
+    false
+  );
+  return key;
+}
+
+describe("normalizeParams", () => {
+  it("should sort keys at every depth and drop undefined values", () => {
+    const normalized = normalizeParams({ b: 1, a: { d: [{ z: 1, y: 2 }], c: undefined } });
+
+    expect(JSON.stringify(normalized)).toBe('{"a":{"d":[{"y":2,"z":1}]},"b":1}');
+  });
+
+  it("should sort arrays of primitives but keep arrays of objects in order", () => {
+    expect(normalizeParams({ ids: [3, 1, 2], items: [{ b: 1 }, { a: 1 }] })).toEqual({
+      ids: [1, 2, 3],
+      items: [{ b: 1 }, { a: 1 }],
+    });
+  });
+});
+
+describe("cache manifest", () => {
+  beforeEach(() => {
+    clearCache(TEST_CACHE_DIR);
+  });
+
+  afterEach(() => {
+    clearCache(TEST_CACHE_DIR);
+    if (existsSync(TEST_CACHE_PATH)) {
+      rmSync(TEST_CACHE_PATH, { recursive: true });
+    }
+  });
+
+  it("should record metadata for written entries", () => {
+    const key = writeStory("cdn/stories/home", 1, { version: "draft", language: "de" }, 1000);
+
+    const [record] = listCacheEntries({}, TEST_CACHE_DIR);
+
+    expect(record).toMatchObject({
+      key,
+      slug: "cdn/stories/home",
+      params: { language: "de", version: "draft" },
+      cv: 100,
+      createdAt: 1000,
+      storyIds: [1],
+    });
+    expect(Object.keys(record?.params ?? {})).toEqual(["language", "version"]);
+    expect(record?.size).toBeGreaterThan(0);
+    expect(record?.contentHash).toMatch(/^[a-f0-9]{64}$/);
+  });
+
+  it("should give identical responses the same content hash", () => {
+    writeStory("cdn/stories/home", 1, {}, 1000);
+    writeStory("cdn/stories/home", 1, { version: "draft" }, 2000);
+
+    const [a, b] = listCacheEntries({}, TEST_CACHE_DIR);
+
+    expect(a?.contentHash).toBe(b?.contentHash);
+  });
+
+  it("should filter entries", () => {
+    writeStory("cdn/stories/blog/a", 1, {}, 1000);
+    writeStory("cdn/stories/blog/b", 2, {}, 3000);
+    writeStory("cdn/stories/about", 3, {}, 5000);
+
+    const slugsOf = (filter: Parameters<typeof listCacheEntries>[0]) =>
+      listCacheEntries(filter, TEST_CACHE_DIR).map((record) => record.slug);
+
+    expect(slugsOf({ slugPrefix: "/cdn/stories/blog" })).toEqual(["cdn/stories/blog/a", "cdn/stories/blog/b"]);
+    expect(slugsOf({ storyId: 3 })).toEqual(["cdn/stories/about"]);
+    expect(slugsOf({ createdBefore: 3000 })).toEqual(["cdn/stories/blog/a"]);
+    expect(slugsOf({ createdAfter: 3000, slugPrefix: "cdn/stories/blog" })).toEqual(["cdn/stories/blog/b"]);
+    expect(slugsOf({ cv: 99 })).toEqual([]);
+  });
+
+  it("should update the access time on reads", () => {
+    const key = writeStory("cdn/stories/home", 1);
+    const later = Date.now() + 60_000;
+    vi.spyOn(Date, "now").mockReturnValue(later);
+
+    readFromCache(key, TEST_CACHE_DIR, false);
+    vi.restoreAllMocks();
+
+    expect(listCacheEntries({}, TEST_CACHE_DIR)[0]?.accessedAt).toBe(later);
+    expect(listCacheEntries({ accessedBefore: later }, TEST_CACHE_DIR)).toEqual([]);
+  });
+
+  it("should leave the access time alone for untracked reads", () => {
+    const key = writeStory("cdn/stories/home", 1);
+    const accessedAt = listCacheEntries({}, TEST_CACHE_DIR)[0]?.accessedAt;
+    vi.spyOn(Date, "now").mockReturnValue(Date.now() + 60_000);
+
+    readFromCache(key, TEST_CACHE_DIR, false, { track: false });
+    vi.restoreAllMocks();
+
+    expect(listCacheEntries({}, TEST_CACHE_DIR)[0]?.accessedAt).toBe(accessedAt);
+  });
+
+  it("should drop deleted entries", () => {
+    const key = writeStory("cdn/stories/home", 1);
+    writeStory("cdn/stories/about", 2);
+
+    deleteFromCache(key, TEST_CACHE_DIR);
+
+    expect(listCacheEntries({}, TEST_CACHE_DIR).map((record) => record.key)).not.toContain(key);
+  });
+
+  it("should persist the manifest to disk", () => {
+    const key = writeStory("cdn/stories/home", 1);
+
+    flushManifest(TEST_CACHE_DIR);
+
+    const stored = JSON.parse(readFileSync(MANIFEST_PATH, "utf-8"));
+    expect(stored.version).toBe(1);
+    expect(stored.entries[key].slug).toBe("cdn/stories/home");
+  });
+
+  it("should delete the manifest when the cache is cleared", () => {
+    writeStory("cdn/stories/home", 1);
+    flushManifest(TEST_CACHE_DIR);
+
+    expect(clearCache(TEST_CACHE_DIR)).toBe(1);
+    expect(existsSync(MANIFEST_PATH)).toBe(false);
+    expect(listCacheEntries({}, TEST_CACHE_DIR)).toEqual([]);
+  });
+
+  it("should repair a manifest that disagrees with the files on disk", () => {
+    const removed = writeStory("cdn/stories/home", 1);
+    const updated = writeStory("cdn/stories/about", 2);
+    flushManifest(TEST_CACHE_DIR);
+
+    // Changes made behind the manifest's back
+    unlinkSync(join(TEST_CACHE_PATH, removed));
+    writeFileSync(
+      join(TEST_CACHE_PATH, updated),
+      JSON.stringify({ timestamp: 1, slug: "cdn/stories/about", data: { data: { story: { id: 22 } } } }),
+      "utf-8"
+    );
+    const added = generateCacheKey("cdn/stories/contact");
+    writeFileSync(join(TEST_CACHE_PATH, added), JSON.stringify({ data: { story: { id: 3 } } }), "utf-8");
+
+    const repair = repairManifest(TEST_CACHE_DIR);
+
+    expect(repair).toEqual({ added: [added], removed: [removed], updated: [updated] });
+    expect(listCacheEntries({ storyId: 22 }, TEST_CACHE_DIR).map((record) => record.key)).toEqual([updated]);
+    expect(repairManifest(TEST_CACHE_DIR)).toEqual({ added: [], removed: [], updated: [] });
+  });
+
+  it("should rebuild a corrupted manifest from the files on disk", () => {
+    const key = writeStory("cdn/stories/home", 1);
+    flushManifest(TEST_CACHE_DIR);
+    writeFileSync(MANIFEST_PATH, "{ not json", "utf-8");
+
+    const repair = repairManifest(TEST_CACHE_DIR);
+
+    expect(repair.added).toEqual([key]);
+    expect(listCacheEntries({ storyId: 1 }, TEST_CACHE_DIR)).toHaveLength(1);
+  });
+
+  it("should list entries of every namespace", () => {
+    const top = writeStory("cdn/stories/home", 1);
+    const draft = generateCacheKey("cdn/stories/about", { version: "draft" });
+    writeToCache(
+      draft,
+      { timestamp: 0, slug: "cdn/stories/about", data: { data: { story: { id: 2 } } } },
+      join(TEST_CACHE_DIR, "a1b2c3d4e5f6/draft"),
+      false
+    );
+
+    const entries = listCacheEntries({}, TEST_CACHE_DIR);
+
+    expect(entries.map(({ key, namespace }) => ({ key, namespace }))).toEqual([
+      { key: top, namespace: undefined },
+      { key: draft, namespace: "a1b2c3d4e5f6/draft" },
+    ]);
+    expect(listCacheEntries({ namespace: "a1b2c3d4e5f6" }, TEST_CACHE_DIR).map((record) => record.key)).toEqual([
+      draft,
+    ]);
+    expect(listCacheEntries({ storyId: 2, namespace: "other" }, TEST_CACHE_DIR)).toEqual([]);
+  });
+});
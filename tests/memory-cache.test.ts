@@ -0,0 +1,92 @@
+import { describe, it, expect } from "vitest";
+import { MemoryCache } from "../src/memory-cache";
+
+describe("MemoryCache", () => {
+  it("should return undefined for missing keys", () => {
+    const cache = new MemoryCache();
+
+    expect(cache.get("missing")).toBeUndefined();
+  });
+
+  it("should store and return copies of values", () => {
+    const cache = new MemoryCache<{ story: { name: string } }>();
+    const value = { story: { name: "Test" } };
+
+    cache.set("home", value);
+    value.story.name = "Changed";
+    const first = cache.get("home");
+    first!.story.name = "Changed";
+
+    expect(first).not.toBe(value);
+    expect(cache.get("home")).toEqual({ story: { name: "Test" } });
+    expect(cache.size).toBe(1);
+  });
+
+  it("should evict the least recently used entry when over maxEntries", () => {
+    const cache = new MemoryCache({ maxEntries: 2 });
+
+    cache.set("a", 1);
+    cache.set("b", 2);
+    cache.get("a");
+    cache.set("c", 3);
+
+    expect(cache.get("a")).toBe(1);
+    expect(cache.get("b")).toBeUndefined();
+    expect(cache.get("c")).toBe(3);
+  });
+
+  it("should evict entries until under maxBytes", () => {
+    const cache = new MemoryCache({ maxBytes: 10 });
+
+    cache.set("a", "x", 4);
+    cache.set("b", "y", 4);
+    cache.set("c", "z", 4);
+
+    expect(cache.get("a")).toBeUndefined();
+    expect(cache.size).toBe(2);
+    expect(cache.bytes).toBe(8);
+  });
+
+  it("should estimate size from serialized JSON", () => {
+    const cache = new MemoryCache();
+
+    cache.set("a", { name: "Test" });
+
+    expect(cache.bytes).toBe(JSON.stringify({ name: "Test" }).length);
+  });
+
+  it("should skip values larger than maxBytes", () => {
+    const cache = new MemoryCache({ maxBytes: 10 });
+
+    cache.set("small", "x", 5);
+    cache.set("huge", "y", 11);
+
+    expect(cache.get("huge")).toBeUndefined();
+    expect(cache.get("small")).toBe("x");
+  });
+
+  it("should replace existing keys without double counting bytes", () => {
+    const cache = new MemoryCache();
+
+    cache.set("a", "old", 5);
+    cache.set("a", "new", 7);
+
+    expect(cache.get("a")).toBe("new");
+    expect(cache.bytes).toBe(7);
+  });
+
+  it("should delete and clear entries", () => {
+    const cache = new MemoryCache();
+
+    cache.set("a", 1, 1);
+    cache.set("b", 2, 1);
+
+    expect(cache.delete("a")).toBe(true);
+    expect(cache.delete("a")).toBe(false);
+
+    cache.clear();
+
+    expect(cache.size).toBe(0);
+    expect(cache.bytes).toBe(0);
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, it, expect } from "vitest";
+import { resolveNamespace, tokenFingerprint } from "../src/namespace";
+
+describe("tokenFingerprint", () => {
+  it("should be short, stable and not contain the token", () => {
+    const fingerprint = tokenFingerprint("preview-token");
+
+    expect(fingerprint).toMatch(/^[a-f0-9]{12}$/);
+    expect(tokenFingerprint("preview-token")).toBe(fingerprint);
+    expect(tokenFingerprint("public-token")).not.toBe(fingerprint);
+  });
+});
+
+describe("resolveNamespace", () => {
+  it("should combine the token fingerprint and the version", () => {
+    expect(resolveNamespace({ token: "preview-token", version: "draft" })).toBe(
+      `${tokenFingerprint("preview-token")}/draft`
+    );
+  });
+
+  it("should default to the published version", () => {
+    expect(resolveNamespace({ namespace: "staging" })).toBe("staging/published");
+  });
+
+  it("should prefer an explicit namespace over the token", () => {
+    expect(resolveNamespace({ namespace: "staging", token: "preview-token", version: "draft" })).toBe(
+      "staging/draft"
+    );
+  });
+
+  it("should sanitize path segments", () => {
+    expect(resolveNamespace({ namespace: "../prod", version: "draft" })).toBe("---prod/draft");
+  });
+
+  it("should return undefined without a space", () => {
+    expect(resolveNamespace({ version: "draft" })).toBeUndefined();
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import { deserializeResponse, serializeResponse } from "../src/response";
+
+describe("serializeResponse", () => {
+  it("should keep data, status and pagination", () => {
+    const serialized = serializeResponse({ data: { story: { id: 1 } }, status: 200, perPage: 25, total: 3 });
+
+    expect(serialized).toEqual({ data: { story: { id: 1 } }, status: 200, perPage: 25, total: 3 });
+  });
+
+  it("should lowercase header names and drop excluded headers", () => {
+    const serialized = serializeResponse({
+      data: {},
+      headers: { Total: "3", "Set-Cookie": "session=1", "X-Empty": undefined },
+    });
+
+    expect(serialized.headers).toEqual({ total: "3" });
+    expect(serialized.headersInstance).toBeUndefined();
+  });
+
+  it("should flatten a Headers instance", () => {
+    const serialized = serializeResponse({ data: {}, headers: new Headers({ "Per-Page": "25" }) });
+
+    expect(serialized.headers).toEqual({ "per-page": "25" });
+    expect(serialized.headersInstance).toBe(true);
+  });
+
+  it("should survive a JSON round trip", () => {
+    const serialized = serializeResponse({ data: { stories: [] }, status: 200 });
+
+    expect(JSON.parse(JSON.stringify(serialized))).toEqual(serialized);
+  });
+});
+
+describe("deserializeResponse", () => {
+  it("should restore a Headers instance", () => {
+    const response = deserializeResponse<{ headers: Headers }>({
+      data: {},
+      headers: { total: "3" },
+      headersInstance: true,
+    });
+
+    expect(response.headers).toBeInstanceOf(Headers);
+    expect(response.headers.get("Total")).toBe("3");
+  });
+
+  it("should restore plain headers as a copy", () => {
+    const headers = { total: "3" };
+    const response = deserializeResponse<{ headers: Record<string, string> }>({ data: {}, headers });
+
+    expect(response.headers).toEqual(headers);
+    expect(response.headers).not.toBe(headers);
+  });
+
+  it("should read legacy responses without an envelope", () => {
+    expect(deserializeResponse({ data: { story: { id: 1 } } })).toEqual({ data: { story: { id: 1 } } });
+  });
+});
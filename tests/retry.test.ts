@@ -0,0 +1,72 @@
+import { describe, it, expect, vi } from "vitest";
+import { getErrorStatus, getRetryAfter, isRetryableError, withRetry } from "../src/retry";
+
+describe("isRetryableError", () => {
+  it("should retry rate limits, server errors and network errors", () => {
+    expect(isRetryableError({ status: 429 })).toBe(true);
+    expect(isRetryableError({ status: 503 })).toBe(true);
+    expect(isRetryableError({ message: "fetch failed" })).toBe(true);
+  });
+
+  it("should not retry client errors", () => {
+    expect(isRetryableError({ status: 404 })).toBe(false);
+    expect(isRetryableError({ status: 401 })).toBe(false);
+  });
+});
+
+describe("getErrorStatus", () => {
+  it("should read the status of Storyblok client errors", () => {
+    expect(getErrorStatus({ status: 404 })).toBe(404);
+    expect(getErrorStatus(new Error("boom"))).toBeUndefined();
+    expect(getErrorStatus(null)).toBeUndefined();
+  });
+});
+
+describe("getRetryAfter", () => {
+  it("should read delays in seconds", () => {
+    expect(getRetryAfter({ status: 429, response: { headers: { "retry-after": "2" } } })).toBe(2000);
+  });
+
+  it("should read HTTP dates", () => {
+    const now = Date.parse("2024-01-01T00:00:00Z");
+    const error = { status: 429, response: { headers: new Headers({ "Retry-After": "Mon, 01 Jan 2024 00:00:03 GMT" }) } };
+
+    expect(getRetryAfter(error, now)).toBe(3000);
+  });
+
+  it("should return undefined without a header", () => {
+    expect(getRetryAfter({ status: 429, response: { headers: {} } })).toBeUndefined();
+  });
+});
+
+describe("withRetry", () => {
+  it("should back off exponentially up to the retry limit", async () => {
+    const request = vi.fn().mockRejectedValue({ status: 500 });
+    const onRetry = vi.fn();
+
+    await expect(withRetry(request, { retries: 3, minDelay: 1 }, onRetry)).rejects.toEqual({ status: 500 });
+
+    expect(request).toHaveBeenCalledTimes(4);
+    expect(onRetry.mock.calls.map(([, attempt, delay]) => [attempt, delay])).toEqual([
+      [1, 1],
+      [2, 2],
+      [3, 4],
+    ]);
+  });
+
+  it("should honour Retry-After on rate limits, capped by maxDelay", async () => {
+    const rateLimited = { status: 429, response: { headers: { "retry-after": "60" } } };
+    const request = vi.fn().mockRejectedValueOnce(rateLimited).mockResolvedValueOnce("ok");
+    const onRetry = vi.fn();
+
+    await expect(withRetry(request, { maxDelay: 5 }, onRetry)).resolves.toBe("ok");
+    expect(onRetry).toHaveBeenCalledWith(rateLimited, 1, 5);
+  });
+
+  it("should not retry non-retryable errors", async () => {
+    const request = vi.fn().mockRejectedValue({ status: 404 });
+
+    await expect(withRetry(request, { minDelay: 1 })).rejects.toEqual({ status: 404 });
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, it, expect } from "vitest";
+import { ReverseIndex, extractEntryRefs, extractStoryRefs, normalizeStorySlug } from "../src/reverse-index";
+
+describe("normalizeStorySlug", () => {
+  it("should strip leading and trailing slashes", () => {
+    expect(normalizeStorySlug("/blog/post/")).toBe("blog/post");
+  });
+});
+
+describe("extractStoryRefs", () => {
+  it("should collect a single story", () => {
+    const refs = extractStoryRefs(
+      { data: { story: { id: 1, full_slug: "home" } } },
+      "cdn/stories/home"
+    );
+
+    expect(refs).toEqual({ ids: [1], uuids: [], slugs: ["home"] });
+  });
+
+  it("should collect every story of a listing", () => {
+    const refs = extractStoryRefs({
+      data: {
+        stories: [
+          { id: 1, full_slug: "blog/a" },
+          { id: 2, full_slug: "blog/b/" },
+        ],
+      },
+    }, "cdn/stories");
+
+    expect(refs).toEqual({ ids: [1, 2], uuids: [], slugs: ["blog/a", "blog/b"] });
+  });
+
+  it("should use the requested story path as a slug", () => {
+    expect(extractStoryRefs(null, "/cdn/stories/about")).toEqual({ ids: [], uuids: [], slugs: ["about"] });
+  });
+
+  it("should collect resolved relations and links", () => {
+    const author = { id: 2, uuid: "author-uuid", full_slug: "authors/jane", content: { name: "Jane" } };
+    const refs = extractStoryRefs({
+      data: {
+        story: {
+          id: 1,
+          uuid: "article-uuid",
+          full_slug: "blog/post",
+          content: {
+            author,
+            cta: { linktype: "story", id: "contact-uuid", story: { id: 3, uuid: "contact-uuid", full_slug: "contact" } },
+          },
+        },
+        rels: [author],
+        links: [{ id: 4, uuid: "about-uuid", slug: "about" }],
+        rel_uuids: ["more-uuid"],
+      },
+    }, "cdn/stories/blog/post");
+
+    expect(refs.ids.sort()).toEqual([1, 2, 3, 4]);
+    expect(refs.uuids.sort()).toEqual(["about-uuid", "article-uuid", "author-uuid", "contact-uuid", "more-uuid"]);
+    expect(refs.slugs.sort()).toEqual(["about", "authors/jane", "blog/post", "contact"]);
+  });
+
+  it("should survive circular references", () => {
+    const story: Record<string, unknown> = { id: 1, uuid: "a", full_slug: "a" };
+    story["content"] = { self: story };
+
+    expect(extractStoryRefs({ data: { story } })).toEqual({ ids: [1], uuids: ["a"], slugs: ["a"] });
+  });
+
+  it("should ignore responses without stories", () => {
+    expect(extractStoryRefs({ data: { links: {} } }, "cdn/links")).toEqual({ ids: [], uuids: [], slugs: [] });
+  });
+});
+
+describe("extractEntryRefs", () => {
+  it("should unwrap cache entries and accept legacy raw responses", () => {
+    const response = { data: { story: { id: 1, full_slug: "home" } } };
+
+    expect(extractEntryRefs({ timestamp: 1, slug: "cdn/stories/home", data: response })).toEqual({
+      ids: [1],
+      uuids: [],
+      slugs: ["home"],
+    });
+    expect(extractEntryRefs(response)).toEqual({ ids: [1], uuids: [], slugs: ["home"] });
+  });
+
+  it("should include the tags of an entry", () => {
+    expect(extractEntryRefs({ timestamp: 1, tags: ["navigation"], data: { data: {} } })).toEqual({
+      ids: [],
+      uuids: [],
+      slugs: [],
+      tags: ["navigation"],
+    });
+  });
+});
+
+describe("ReverseIndex", () => {
+  it("should find keys by story id and slug", () => {
+    const index = new ReverseIndex();
+
+    index.add("home.json", { ids: [1], uuids: [], slugs: ["home"] });
+    index.add("listing.json", { ids: [1, 2], uuids: [], slugs: ["home", "about"] });
+
+    expect(index.find({ storyId: 1 })).toEqual(["home.json", "listing.json"]);
+    expect(index.find({ slug: "/about" })).toEqual(["listing.json"]);
+    expect(index.find({ storyId: 2, slug: "home" })).toEqual(["home.json", "listing.json"]);
+    expect(index.find({ storyId: 3 })).toEqual([]);
+  });
+
+  it("should find keys by story uuid", () => {
+    const index = new ReverseIndex();
+
+    index.add("article.json", { ids: [1, 2], uuids: ["article", "author"], slugs: [] });
+
+    expect(index.find({ uuid: "author" })).toEqual(["article.json"]);
+    index.remove("article.json");
+    expect(index.find({ uuid: "author" })).toEqual([]);
+  });
+
+  it("should find keys by tag", () => {
+    const index = new ReverseIndex();
+
+    index.add("footer.json", { ids: [], uuids: [], slugs: [], tags: ["navigation"] });
+
+    expect(index.find({ tag: "navigation" })).toEqual(["footer.json"]);
+    index.remove("footer.json");
+    expect(index.find({ tag: "navigation" })).toEqual([]);
+  });
+
+  it("should replace references when a key is re-added", () => {
+    const index = new ReverseIndex();
+
+    index.add("page.json", { ids: [1], uuids: [], slugs: ["old"] });
+    index.add("page.json", { ids: [1], uuids: [], slugs: ["new"] });
+
+    expect(index.find({ slug: "old" })).toEqual([]);
+    expect(index.find({ slug: "new" })).toEqual(["page.json"]);
+    expect(index.size).toBe(1);
+  });
+
+  it("should remove and clear keys", () => {
+    const index = new ReverseIndex();
+
+    index.add("a.json", { ids: [1], uuids: [], slugs: [] });
+    index.add("b.json", { ids: [1], uuids: [], slugs: [] });
+    index.remove("a.json");
+
+    expect(index.find({ storyId: 1 })).toEqual(["b.json"]);
+
+    index.clear();
+
+    expect(index.size).toBe(0);
+    expect(index.find({ storyId: 1 })).toEqual([]);
+  });
+});
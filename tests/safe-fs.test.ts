@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { existsSync, mkdirSync, readdirSync, readFileSync, rmSync, utimesSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { CacheLockError } from "../src/errors";
+import { QUARANTINE_DIR, quarantineFile, withFileLock, writeFileAtomic } from "../src/safe-fs";
+
+const TEST_CACHE_PATH = join(process.cwd(), ".test-cache-safe-fs");
+const LOCK_PATH = join(TEST_CACHE_PATH, "entry.json.lock");
+
+describe("safe-fs", () => {
+  beforeEach(() => {
+    mkdirSync(TEST_CACHE_PATH, { recursive: true });
+  });
+
+  afterEach(() => {
+    if (existsSync(TEST_CACHE_PATH)) {
+      rmSync(TEST_CACHE_PATH, { recursive: true });
+    }
+  });
+
+  describe("withFileLock", () => {
+    it("should hold the lock while running and release it afterwards", () => {
+      const result = withFileLock(LOCK_PATH, () => {
+        expect(readFileSync(LOCK_PATH, "utf-8")).toBe(String(process.pid));
+        return 42;
+      });
+
+      expect(result).toBe(42);
+      expect(existsSync(LOCK_PATH)).toBe(false);
+    });
+
+    it("should release the lock when the function throws", () => {
+      expect(() => withFileLock(LOCK_PATH, () => {
+        throw new Error("boom");
+      })).toThrow("boom");
+      expect(existsSync(LOCK_PATH)).toBe(false);
+    });
+
+    it("should time out while a live process holds the lock", () => {
+      writeFileSync(LOCK_PATH, String(process.pid), "utf-8");
+
+      expect(() => withFileLock(LOCK_PATH, () => 1, { timeout: 30 })).toThrow(CacheLockError);
+      expect(existsSync(LOCK_PATH)).toBe(true);
+    });
+
+    it("should take over a lock whose owner has exited", () => {
+      // Above the highest pid Linux hands out
+      writeFileSync(LOCK_PATH, "4194305", "utf-8");
+
+      expect(withFileLock(LOCK_PATH, () => "ok", { timeout: 30 })).toBe("ok");
+    });
+
+    it("should take over a lock older than the stale limit", () => {
+      writeFileSync(LOCK_PATH, String(process.pid), "utf-8");
+      const past = new Date(Date.now() - 60_000);
+      utimesSync(LOCK_PATH, past, past);
+
+      expect(withFileLock(LOCK_PATH, () => "ok", { timeout: 30, stale: 10_000 })).toBe("ok");
+    });
+  });
+
+  describe("writeFileAtomic", () => {
+    it("should replace the file without leaving temporary files behind", () => {
+      const path = join(TEST_CACHE_PATH, "entry.json");
+      writeFileSync(path, "old", "utf-8");
+
+      writeFileAtomic(path, "new");
+
+      expect(readFileSync(path, "utf-8")).toBe("new");
+      expect(readdirSync(TEST_CACHE_PATH)).toEqual(["entry.json"]);
+    });
+  });
+
+  describe("quarantineFile", () => {
+    it("should move the file into the quarantine folder", () => {
+      const path = join(TEST_CACHE_PATH, "broken.json");
+      writeFileSync(path, "{", "utf-8");
+
+      const target = quarantineFile(path);
+
+      expect(existsSync(path)).toBe(false);
+      expect(target).toMatch(/\.quarantine[\\/]\d+-broken\.json$/);
+      expect(readdirSync(join(TEST_CACHE_PATH, QUARANTINE_DIR))).toHaveLength(1);
+    });
+
+    it("should return null for missing files", () => {
+      expect(quarantineFile(join(TEST_CACHE_PATH, "missing.json"))).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { existsSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { clearCache, generateCacheKey, listCacheKeys, writeToCache } from "../src/cache";
+import { SnapshotError } from "../src/errors";
+import { exportSnapshot, importSnapshot } from "../src/snapshot";
+import type { Snapshot } from "../src/snapshot";
+
+const TEST_CACHE_DIR = ".test-cache-snapshot";
+const TEST_CACHE_PATH = join(process.cwd(), TEST_CACHE_DIR);
+const SNAPSHOT_DIR = ".test-cache-snapshot-files";
+const SNAPSHOT_FILE = join(SNAPSHOT_DIR, "snapshot.json");
+
+function writeStory(slug: string, cacheDir = TEST_CACHE_DIR) {
+  const key = generateCacheKey(slug);
+  writeToCache(key, { timestamp: 1000, slug, data: { data: { story: { full_slug: slug } } } }, cacheDir, false);
+  return key;
+}
+
+function readSnapshotFile(): Snapshot {
+  return JSON.parse(readFileSync(SNAPSHOT_FILE, "utf-8")) as Snapshot;
+}
+
+describe("snapshots", () => {
+  beforeEach(() => {
+    clearCache(TEST_CACHE_DIR);
+  });
+
+  afterEach(() => {
+    clearCache(TEST_CACHE_DIR);
+    [TEST_CACHE_PATH, join(process.cwd(), SNAPSHOT_DIR)].forEach((path) => {
+      if (existsSync(path)) {
+        rmSync(path, { recursive: true });
+      }
+    });
+  });
+
+  it("should restore every entry byte for byte, including namespaces", () => {
+    const flat = writeStory("cdn/stories/home");
+    const namespaced = writeStory("cdn/stories/about", join(TEST_CACHE_DIR, "space/draft"));
+    const flatContent = readFileSync(join(TEST_CACHE_PATH, flat), "utf-8");
+    const namespacedContent = readFileSync(join(TEST_CACHE_PATH, "space/draft", namespaced), "utf-8");
+
+    const exported = exportSnapshot(SNAPSHOT_FILE, { cacheDir: TEST_CACHE_DIR });
+    clearCache(TEST_CACHE_DIR);
+    const imported = importSnapshot(SNAPSHOT_FILE, { cacheDir: TEST_CACHE_DIR });
+
+    expect(imported).toEqual(exported);
+    expect(exported.entries).toBe(2);
+    expect(readFileSync(join(TEST_CACHE_PATH, flat), "utf-8")).toBe(flatContent);
+    expect(readFileSync(join(TEST_CACHE_PATH, "space/draft", namespaced), "utf-8")).toBe(namespacedContent);
+  });
+
+  it("should record a checksum for every entry", () => {
+    const key = writeStory("cdn/stories/home");
+
+    exportSnapshot(SNAPSHOT_FILE, { cacheDir: TEST_CACHE_DIR });
+
+    expect(readSnapshotFile().files).toEqual([
+      { path: key, size: expect.any(Number), sha256: expect.stringMatching(/^[0-9a-f]{64}$/) },
+    ]);
+  });
+
+  it("should write identical snapshots for identical contents", () => {
+    writeStory("cdn/stories/home");
+    writeStory("cdn/stories/about");
+
+    exportSnapshot(SNAPSHOT_FILE, { cacheDir: TEST_CACHE_DIR });
+    const first = readFileSync(SNAPSHOT_FILE, "utf-8");
+    exportSnapshot(SNAPSHOT_FILE, { cacheDir: TEST_CACHE_DIR });
+
+    expect(readFileSync(SNAPSHOT_FILE, "utf-8")).toBe(first);
+  });
+
+  it("should replace entries that are not in the snapshot", () => {
+    const home = writeStory("cdn/stories/home");
+    exportSnapshot(SNAPSHOT_FILE, { cacheDir: TEST_CACHE_DIR });
+    writeStory("cdn/stories/about");
+
+    importSnapshot(SNAPSHOT_FILE, { cacheDir: TEST_CACHE_DIR });
+
+    expect(listCacheKeys(TEST_CACHE_DIR)).toEqual([home]);
+  });
+
+  it("should reject a modified entry and leave the cache untouched", () => {
+    const home = writeStory("cdn/stories/home");
+    exportSnapshot(SNAPSHOT_FILE, { cacheDir: TEST_CACHE_DIR });
+    const snapshot = readSnapshotFile();
+    snapshot.entries[home] = snapshot.entries[home]!.replace("cdn/stories/home", "cdn/stories/evil");
+    writeFileSync(SNAPSHOT_FILE, JSON.stringify(snapshot), "utf-8");
+    const about = writeStory("cdn/stories/about");
+
+    expect(() => importSnapshot(SNAPSHOT_FILE, { cacheDir: TEST_CACHE_DIR })).toThrow(
+      new SnapshotError(SNAPSHOT_FILE, `checksum mismatch for ${home}`)
+    );
+    expect(listCacheKeys(TEST_CACHE_DIR)).toEqual([about, home].sort());
+  });
+
+  it("should reject unsupported versions", () => {
+    writeStory("cdn/stories/home");
+    exportSnapshot(SNAPSHOT_FILE, { cacheDir: TEST_CACHE_DIR });
+    writeFileSync(SNAPSHOT_FILE, JSON.stringify({ ...readSnapshotFile(), version: 99 }), "utf-8");
+
+    expect(() => importSnapshot(SNAPSHOT_FILE, { cacheDir: TEST_CACHE_DIR })).toThrow(/unsupported version 99/);
+  });
+
+  it("should reject entry paths outside the cache directory", () => {
+    exportSnapshot(SNAPSHOT_FILE, { cacheDir: TEST_CACHE_DIR });
+    const content = "{}";
+    const snapshot = readSnapshotFile();
+    snapshot.files.push({ path: "../escape.json", size: 2, sha256: "" });
+    snapshot.entries["../escape.json"] = content;
+    writeFileSync(SNAPSHOT_FILE, JSON.stringify(snapshot), "utf-8");
+
+    expect(() => importSnapshot(SNAPSHOT_FILE, { cacheDir: TEST_CACHE_DIR })).toThrow(/invalid entry path/);
+  });
+
+  it("should reject files that are not snapshots", () => {
+    expect(() => importSnapshot(join(SNAPSHOT_DIR, "missing.json"))).toThrow(/file not found/);
+
+    exportSnapshot(SNAPSHOT_FILE, { cacheDir: TEST_CACHE_DIR });
+    writeFileSync(SNAPSHOT_FILE, "{ invalid", "utf-8");
+    expect(() => importSnapshot(SNAPSHOT_FILE, { cacheDir: TEST_CACHE_DIR })).toThrow(/not valid JSON/);
+
+    writeFileSync(SNAPSHOT_FILE, "{}", "utf-8");
+    expect(() => importSnapshot(SNAPSHOT_FILE, { cacheDir: TEST_CACHE_DIR })).toThrow(/not a storyblok-cached-api snapshot/);
+  });
+});
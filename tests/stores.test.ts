@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { existsSync, rmSync, writeFileSync, mkdirSync } from "node:fs";
+import { join } from "node:path";
+import { FileSystemStore, MemoryStore } from "../src/stores";
+import type { CacheStore } from "../src/stores";
+
+const TEST_CACHE_DIR = ".test-cache-stores";
+const TEST_CACHE_PATH = join(process.cwd(), TEST_CACHE_DIR);
+
+const adapters: Array<[string, () => CacheStore]> = [
+  ["FileSystemStore", () => new FileSystemStore(TEST_CACHE_DIR, false)],
+  ["MemoryStore", () => new MemoryStore()],
+];
+
+describe.each(adapters)("%s", (_name, createStore) => {
+  let store: CacheStore;
+
+  beforeEach(() => {
+    if (existsSync(TEST_CACHE_PATH)) {
+      rmSync(TEST_CACHE_PATH, { recursive: true });
+    }
+    store = createStore();
+  });
+
+  afterEach(() => {
+    if (existsSync(TEST_CACHE_PATH)) {
+      rmSync(TEST_CACHE_PATH, { recursive: true });
+    }
+  });
+
+  it("should return null for missing keys", async () => {
+    expect(await store.get("missing.json")).toBeNull();
+  });
+
+  it("should round-trip values as copies", async () => {
+    const value = { story: { name: "Test" } };
+
+    await store.set("home.json", value);
+    const result = await store.get("home.json");
+
+    expect(result).toEqual(value);
+    expect(result).not.toBe(value);
+  });
+
+  it("should overwrite existing values", async () => {
+    await store.set("home.json", { name: "Old" });
+    await store.set("home.json", { name: "New" });
+
+    expect(await store.get("home.json")).toEqual({ name: "New" });
+  });
+
+  it("should delete values", async () => {
+    await store.set("home.json", {});
+
+    expect(await store.delete("home.json")).toBe(true);
+    expect(await store.delete("home.json")).toBe(false);
+    expect(await store.get("home.json")).toBeNull();
+  });
+
+  it("should list keys in sorted order", async () => {
+    await store.set("b.json", {});
+    await store.set("a.json", {});
+
+    expect(await store.list()).toEqual(["a.json", "b.json"]);
+  });
+
+  it("should clear all values", async () => {
+    await store.set("a.json", {});
+    await store.set("b.json", {});
+
+    expect(await store.clear()).toBe(2);
+    expect(await store.list()).toEqual([]);
+  });
+});
+
+describe("FileSystemStore", () => {
+  afterEach(() => {
+    if (existsSync(TEST_CACHE_PATH)) {
+      rmSync(TEST_CACHE_PATH, { recursive: true });
+    }
+  });
+
+  it("should only list JSON files", async () => {
+    mkdirSync(TEST_CACHE_PATH, { recursive: true });
+    writeFileSync(join(TEST_CACHE_PATH, "a.json"), "{}", "utf-8");
+    writeFileSync(join(TEST_CACHE_PATH, "notes.txt"), "text", "utf-8");
+
+    const store = new FileSystemStore(TEST_CACHE_DIR, false);
+
+    expect(await store.list()).toEqual(["a.json"]);
+  });
+
+  it("should list nothing when the directory does not exist", async () => {
+    const store = new FileSystemStore(TEST_CACHE_DIR, false);
+
+    expect(await store.list()).toEqual([]);
+  });
+});
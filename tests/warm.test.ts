@@ -0,0 +1,135 @@
+import { describe, it, expect, vi } from "vitest";
+import { warmCache } from "../src/warm";
+
+function createLinks(count: number, offset = 0) {
+  return Object.fromEntries(
+    Array.from({ length: count }, (_, index) => [
+      `uuid-${offset + index}`,
+      { slug: `page-${offset + index}`, is_folder: false },
+    ])
+  );
+}
+
+describe("warmCache", () => {
+  it("should fetch every story listed in cdn/links with the given params", async () => {
+    const get = vi.fn(async (slug: string) => {
+      if (slug === "cdn/links") {
+        return {
+          data: {
+            links: {
+              a: { slug: "home", is_folder: false },
+              b: { slug: "blog", is_folder: true },
+              c: { slug: "blog/post", is_folder: false },
+            },
+          },
+          total: 3,
+        };
+      }
+      return { data: { story: {} } };
+    });
+
+    const result = await warmCache({
+      api: { get } as never,
+      params: { version: "draft", resolve_relations: "post.author" },
+    });
+
+    expect(result).toEqual({ total: 2, fetched: 2, failed: [] });
+    expect(get).toHaveBeenCalledWith("cdn/links", { version: "draft", page: 1, per_page: 1000 });
+    expect(get).toHaveBeenCalledWith("cdn/stories/home", {
+      version: "draft",
+      resolve_relations: "post.author",
+    });
+    expect(get).toHaveBeenCalledWith("cdn/stories/blog/post", {
+      version: "draft",
+      resolve_relations: "post.author",
+    });
+    expect(get).not.toHaveBeenCalledWith("cdn/stories/blog", expect.anything());
+  });
+
+  it("should pass each story request params the client hasn't changed", async () => {
+    const received: unknown[] = [];
+    // Changes its params the way storyblok-js-client's parseParams does
+    const get = vi.fn(async (slug: string, params: Record<string, unknown>) => {
+      if (slug === "cdn/links") {
+        return { data: { links: createLinks(3) }, total: 3 };
+      }
+      received.push({ ...params });
+      if (params.resolve_relations) {
+        params.resolve_level = 2;
+      }
+      return { data: { story: {} } };
+    });
+
+    await warmCache({
+      api: { get } as never,
+      params: { version: "draft", resolve_relations: "article.author" },
+      concurrency: 1,
+    });
+
+    expect(received).toEqual(
+      Array.from({ length: 3 }, () => ({ version: "draft", resolve_relations: "article.author" }))
+    );
+  });
+
+  it("should follow cdn/links pagination", async () => {
+    const get = vi.fn(async (slug: string, params?: { page?: number }) => {
+      if (slug === "cdn/links") {
+        const page = params?.page ?? 1;
+        return { data: { links: page === 1 ? createLinks(2) : createLinks(1, 2) }, total: 3 };
+      }
+      return { data: { story: {} } };
+    });
+
+    const result = await warmCache({ api: { get } as never, perPage: 2, startsWith: "page" });
+
+    expect(result.total).toBe(3);
+    expect(get).toHaveBeenCalledWith("cdn/links", { starts_with: "page", page: 2, per_page: 2 });
+    expect(get).not.toHaveBeenCalledWith("cdn/links", expect.objectContaining({ page: 3 }));
+  });
+
+  it("should never exceed the concurrency limit", async () => {
+    let active = 0;
+    let peak = 0;
+    const get = vi.fn(async (slug: string) => {
+      if (slug === "cdn/links") {
+        return { data: { links: createLinks(10) }, total: 10 };
+      }
+      active++;
+      peak = Math.max(peak, active);
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      active--;
+      return { data: { story: {} } };
+    });
+
+    await warmCache({ api: { get } as never, concurrency: 3 });
+
+    expect(peak).toBe(3);
+  });
+
+  it("should report progress and collect failures without stopping", async () => {
+    const error = new Error("Not found");
+    const get = vi.fn(async (slug: string) => {
+      if (slug === "cdn/links") {
+        return { data: { links: createLinks(3) }, total: 3 };
+      }
+      if (slug === "cdn/stories/page-1") {
+        throw error;
+      }
+      return { data: { story: {} } };
+    });
+    const onProgress = vi.fn();
+
+    const result = await warmCache({ api: { get } as never, concurrency: 1, onProgress });
+
+    expect(result).toEqual({ total: 3, fetched: 2, failed: [{ slug: "page-1", error }] });
+    expect(onProgress).toHaveBeenCalledTimes(3);
+    expect(onProgress).toHaveBeenNthCalledWith(2, {
+      total: 3,
+      completed: 2,
+      failed: 1,
+      slug: "page-1",
+      error,
+    });
+    expect(onProgress).toHaveBeenLastCalledWith({ total: 3, completed: 3, failed: 1, slug: "page-2" });
+  });
+});
@@ -0,0 +1,266 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { createHmac } from "node:crypto";
+import { existsSync, rmSync } from "node:fs";
+import { join } from "node:path";
+import { clearCache, generateCacheKey, listCacheKeys, writeToCache, deleteFromCache } from "../src/cache";
+import { getReverseIndex, invalidateEntries, invalidateStory } from "../src/invalidation";
+import { FileSystemStore, MemoryStore } from "../src/stores";
+import { createWebhookHandler, handleWebhook, verifyWebhookSignature } from "../src/webhook";
+
+const TEST_CACHE_DIR = ".test-cache-webhook";
+const TEST_CACHE_PATH = join(process.cwd(), TEST_CACHE_DIR);
+const SECRET = "s3cret";
+
+function sign(body: string, secret = SECRET): string {
+  return createHmac("sha1", secret).update(body).digest("hex");
+}
+
+function createRequest(payload: unknown, signature?: string): Request {
+  const body = JSON.stringify(payload);
+  return new Request("http://localhost/api/storyblok-webhook", {
+    method: "POST",
+    body,
+    headers: signature === undefined ? {} : { "webhook-signature": signature },
+  });
+}
+
+async function seedStore(store: MemoryStore) {
+  await store.set(generateCacheKey("cdn/stories/blog/post", { version: "draft" }), {
+    timestamp: 0,
+    slug: "cdn/stories/blog/post",
+    data: { data: { story: { id: 42, full_slug: "blog/post" } } },
+  });
+  await store.set(generateCacheKey("cdn/stories", { starts_with: "blog" }), {
+    timestamp: 0,
+    slug: "cdn/stories",
+    data: { data: { stories: [{ id: 42, full_slug: "blog/post" }, { id: 7, full_slug: "blog/other" }] } },
+  });
+  await store.set(generateCacheKey("cdn/stories/home"), {
+    timestamp: 0,
+    slug: "cdn/stories/home",
+    data: { data: { story: { id: 1, full_slug: "home" } } },
+  });
+}
+
+describe("verifyWebhookSignature", () => {
+  it("should accept a matching signature", () => {
+    expect(verifyWebhookSignature("{}", sign("{}"), SECRET)).toBe(true);
+  });
+
+  it("should reject missing or mismatching signatures", () => {
+    expect(verifyWebhookSignature("{}", null, SECRET)).toBe(false);
+    expect(verifyWebhookSignature("{}", sign("{}", "other"), SECRET)).toBe(false);
+    expect(verifyWebhookSignature("{}", "short", SECRET)).toBe(false);
+  });
+});
+
+describe("invalidateEntries", () => {
+  beforeEach(() => {
+    clearCache(TEST_CACHE_DIR);
+  });
+
+  afterEach(() => {
+    if (existsSync(TEST_CACHE_PATH)) {
+      rmSync(TEST_CACHE_PATH, { recursive: true });
+    }
+  });
+
+  it("should delete every entry containing the story", async () => {
+    const store = new MemoryStore();
+    await seedStore(store);
+
+    const invalidated = await invalidateEntries({ storyId: 42 }, { store, verbose: false });
+
+    expect(invalidated).toHaveLength(2);
+    expect(await store.list()).toEqual([generateCacheKey("cdn/stories/home")]);
+  });
+
+  it("should match entries by full slug", async () => {
+    const store = new MemoryStore();
+    await seedStore(store);
+
+    const invalidated = await invalidateEntries({ slug: "home" }, { store, verbose: false });
+
+    expect(invalidated).toEqual([generateCacheKey("cdn/stories/home")]);
+  });
+
+  it("should index filesystem entries and keep the index in sync", async () => {
+    const key = generateCacheKey("cdn/stories/home");
+    const entry = { timestamp: 0, slug: "cdn/stories/home", data: { data: { story: { id: 1 } } } };
+    writeToCache(key, entry, TEST_CACHE_DIR, false);
+
+    const index = await getReverseIndex(TEST_CACHE_DIR, new FileSystemStore(TEST_CACHE_DIR, false));
+    expect(index.find({ storyId: 1 })).toEqual([key]);
+
+    deleteFromCache(key, TEST_CACHE_DIR);
+    expect(index.find({ storyId: 1 })).toEqual([]);
+
+    // Clearing drops the index, so entries written afterwards are found by a rescan
+    clearCache(TEST_CACHE_DIR);
+    writeToCache(key, entry, TEST_CACHE_DIR, false);
+
+    expect(await invalidateEntries({ storyId: 1 }, { cacheDir: TEST_CACHE_DIR, verbose: false })).toEqual([key]);
+    expect(listCacheKeys(TEST_CACHE_DIR)).toEqual([]);
+  });
+});
+
+describe("invalidateStory", () => {
+  afterEach(() => {
+    if (existsSync(TEST_CACHE_PATH)) {
+      rmSync(TEST_CACHE_PATH, { recursive: true });
+    }
+  });
+
+  const author = { id: 9, uuid: "author-uuid", full_slug: "authors/jane", content: {} };
+
+  async function seedRelations(store: MemoryStore) {
+    await store.set(generateCacheKey("cdn/stories/blog/post", { resolve_relations: "post.author" }), {
+      timestamp: 0,
+      slug: "cdn/stories/blog/post",
+      data: {
+        data: {
+          story: { id: 42, uuid: "post-uuid", full_slug: "blog/post", content: { author } },
+          rels: [author],
+        },
+      },
+    });
+    await store.set(generateCacheKey("cdn/stories/home"), {
+      timestamp: 0,
+      slug: "cdn/stories/home",
+      data: { data: { story: { id: 1, uuid: "home-uuid", full_slug: "home" } } },
+    });
+  }
+
+  it("should delete entries that resolved the story, by id or uuid", async () => {
+    const byId = new MemoryStore();
+    const byUuid = new MemoryStore();
+    await seedRelations(byId);
+    await seedRelations(byUuid);
+
+    const expected = [generateCacheKey("cdn/stories/blog/post", { resolve_relations: "post.author" })];
+    expect(await invalidateStory(9, { store: byId, verbose: false })).toEqual(expected);
+    expect(await invalidateStory("author-uuid", { store: byUuid, verbose: false })).toEqual(expected);
+    expect(await byUuid.list()).toEqual([generateCacheKey("cdn/stories/home")]);
+  });
+
+  it("should treat numeric strings as story ids", async () => {
+    const store = new MemoryStore();
+    await seedRelations(store);
+
+    expect(await invalidateStory("1", { store, verbose: false })).toEqual([generateCacheKey("cdn/stories/home")]);
+  });
+
+  it("should index entries written directly after the index was built", async () => {
+    const store = new FileSystemStore(TEST_CACHE_DIR, false);
+    await getReverseIndex(TEST_CACHE_DIR, store);
+
+    const key = generateCacheKey("cdn/stories/blog/post");
+    writeToCache(key, { timestamp: 0, data: { data: { story: { id: 42, content: { author } } } } }, TEST_CACHE_DIR, false);
+
+    expect(await invalidateStory("author-uuid", { cacheDir: TEST_CACHE_DIR, verbose: false })).toEqual([key]);
+  });
+});
+
+describe("handleWebhook", () => {
+  it("should invalidate the published story's entries", async () => {
+    const store = new MemoryStore();
+    await seedStore(store);
+    const payload = { action: "published", story_id: 42, full_slug: "blog/post", space_id: 1 };
+
+    const response = await handleWebhook(createRequest(payload, sign(JSON.stringify(payload))), {
+      store,
+      secret: SECRET,
+      verbose: false,
+    });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      action: "published",
+      invalidated: [
+        generateCacheKey("cdn/stories", { starts_with: "blog" }),
+        generateCacheKey("cdn/stories/blog/post", { version: "draft" }),
+      ].sort(),
+    });
+    expect(await store.list()).toEqual([generateCacheKey("cdn/stories/home")]);
+  });
+
+  it("should reject requests with an invalid signature", async () => {
+    const store = new MemoryStore();
+    await seedStore(store);
+
+    const response = await handleWebhook(createRequest({ story_id: 42 }, "forged"), {
+      store,
+      secret: SECRET,
+      verbose: false,
+    });
+
+    expect(response.status).toBe(401);
+    expect(await store.list()).toHaveLength(3);
+  });
+
+  it("should reject every request while the secret is missing", async () => {
+    const store = new MemoryStore();
+    await seedStore(store);
+
+    const response = await handleWebhook(createRequest({ action: "unpublished", story_id: 1 }), {
+      store,
+      secret: undefined,
+      verbose: false,
+    });
+
+    expect(response.status).toBe(500);
+    expect(await store.list()).toHaveLength(3);
+  });
+
+  it("should skip verification when verify is false", async () => {
+    const store = new MemoryStore();
+    await seedStore(store);
+
+    const response = await handleWebhook(createRequest({ action: "unpublished", story_id: 1 }), {
+      store,
+      verify: false,
+      verbose: false,
+    });
+
+    expect(response.status).toBe(200);
+    expect(await store.list()).toHaveLength(2);
+  });
+
+  it("should reject non-POST requests and invalid JSON", async () => {
+    const get = await handleWebhook(new Request("http://localhost/", { method: "GET" }));
+    const invalid = await handleWebhook(
+      new Request("http://localhost/", { method: "POST", body: "{" }),
+      { verify: false, verbose: false }
+    );
+
+    expect(get.status).toBe(405);
+    expect(invalid.status).toBe(400);
+  });
+
+  it("should ignore events without a story", async () => {
+    const store = new MemoryStore();
+    await seedStore(store);
+
+    const response = await handleWebhook(
+      createRequest({ action: "entries_updated", datasource_slug: "colors" }),
+      { store, verify: false, verbose: false }
+    );
+
+    expect(await response.json()).toEqual({ action: "entries_updated", invalidated: [] });
+    expect(await store.list()).toHaveLength(3);
+  });
+});
+
+describe("createWebhookHandler", () => {
+  it("should handle Astro API route contexts", async () => {
+    const store = new MemoryStore();
+    await seedStore(store);
+    const POST = createWebhookHandler({ store, secret: SECRET, verbose: false });
+    const payload = { action: "deleted", story_id: 1 };
+
+    const response = await POST({ request: createRequest(payload, sign(JSON.stringify(payload))) });
+
+    expect(response.status).toBe(200);
+    expect(await store.list()).toHaveLength(2);
+  });
+});